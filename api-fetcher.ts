@@ -2,70 +2,246 @@
 //
 // This module is responsible for fetching the online status of a model
 // from the unofficial Chaturbate API. It now includes rate limiting
-// to prevent IP bans and proper error handling.
+// to prevent IP bans and proper error handling, and exposes itself to
+// the monitor as the "chaturbate" StatusProvider.
 
-import { sleep } from "./utils.ts"
+import { parsePositiveInt, parseRetryAfter } from "./utils.ts"
+import { isRequestAllowed, recordFailure, recordSuccess } from "./circuit-breaker.ts"
+import { acquireToken, penalize, type RateLimit } from "./rate-limiter.ts"
+import { emptySnapshot, type RoomSnapshot, type ShowType, type StatusProvider } from "./status-provider.ts"
 
-// Rate limiter class to prevent API abuse
-class APIRateLimiter {
-  private lastCall = 0
-  private backoffMs = 1000
-  private maxBackoff = 30000
-  private minBackoff = 1000
+// Provider id, which also names the circuit breaker and rate limit bucket
+// shared by every request to the Chaturbate API
+const PROVIDER_ID = "chaturbate"
 
-  async callWithLimit<T>(fn: () => Promise<T>): Promise<T> {
-    const now = Date.now()
-    const timeSinceLastCall = now - this.lastCall
-    
-    if (timeSinceLastCall < this.backoffMs) {
-      await sleep(this.backoffMs - timeSinceLastCall)
-    }
+// Shared by the cron, admin force-checks and user-triggered lookups. The
+// status cron can check about refillPerSecond * 40 models a minute, so raise
+// these if the upstream allows it and many models are due at once.
+const RATE_LIMIT: RateLimit = {
+  capacity: parsePositiveInt(Deno.env.get("CHATURBATE_RATE_BURST"), 5),
+  refillPerSecond: parsePositiveInt(Deno.env.get("CHATURBATE_RATE_PER_SECOND"), 2),
+}
+const DEFAULT_MAX_WAIT_MS = 20_000
+const DEFAULT_RETRY_AFTER_MS = 30_000
 
-    try {
-      const result = await fn()
-      // Success: gradually reduce backoff
-      this.backoffMs = Math.max(this.minBackoff, this.backoffMs * 0.9)
-      this.lastCall = Date.now()
-      return result
-    } catch (error) {
-      // Failure: increase backoff exponentially
-      this.backoffMs = Math.min(this.maxBackoff, this.backoffMs * 2)
-      this.lastCall = Date.now()
-      throw error
-    }
+// Error reason when our own limiter gave up waiting. The upstream was never
+// called, so this doesn't count against the circuit breaker.
+const LOCAL_RATE_LIMIT = "local_rate_limit"
+
+// Waits for a token, then makes the request. A 429 blocks the shared
+// bucket for as long as the upstream asks before it is retried.
+async function callWithLimit<T>(fn: () => Promise<T>, maxWaitMs = DEFAULT_MAX_WAIT_MS): Promise<T> {
+  if (!(await acquireToken(PROVIDER_ID, RATE_LIMIT, maxWaitMs))) {
+    throw new Error(LOCAL_RATE_LIMIT)
+  }
+  return await fn()
+}
+
+async function handleRateLimited(res: Response, what: string): Promise<never> {
+  const retryAfterMs = parseRetryAfter(res.headers.get("Retry-After")) ?? DEFAULT_RETRY_AFTER_MS
+  await penalize(PROVIDER_ID, retryAfterMs)
+  throw new Error(`Rate limited for ${what}`)
+}
+
+const KNOWN_SHOW_TYPES: ShowType[] = ["public", "private", "group", "away", "hidden", "password", "offline"]
+
+// Public room thumbnail, used when the API response doesn't name one
+function roomImageUrl(username: string): string {
+  return `https://roomimg.stream.highwebmedia.com/ri/${username}.jpg`
+}
+
+// A room as either API returns it. Nothing about the shape is guaranteed,
+// so every field is type-checked before it's used.
+type RawRoom = Record<string, unknown>
+
+function isRawRoom(value: unknown): value is RawRoom {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+}
+
+// The first of the named fields that holds a string
+function stringField(room: RawRoom, ...names: string[]): string | null {
+  for (const name of names) {
+    const value = room[name]
+    if (typeof value === "string") return value
+  }
+  return null
+}
+
+// The first of the named fields that holds a number
+function numberField(room: RawRoom, ...names: string[]): number | null {
+  for (const name of names) {
+    const value = room[name]
+    if (typeof value === "number") return value
+  }
+  return null
+}
+
+function parseSnapshot(data: unknown): RoomSnapshot {
+  if (!isRawRoom(data)) return emptySnapshot("unknown", "missing_room_status")
+
+  const rawStatus = stringField(data, "room_status")
+  const normalized = rawStatus?.toLowerCase() as ShowType | undefined
+  const username = stringField(data, "broadcaster_username", "username")
+
+  return {
+    room_status: rawStatus,
+    show_type: normalized && KNOWN_SHOW_TYPES.includes(normalized) ? normalized : "unknown",
+    num_viewers: numberField(data, "num_viewers", "num_users"),
+    room_subject: stringField(data, "room_title", "room_subject"),
+    tags: Array.isArray(data.tags) ? data.tags.filter((tag): tag is string => typeof tag === "string") : [],
+    age: numberField(data, "age"),
+    gender: stringField(data, "broadcaster_gender", "gender"),
+    image_url: stringField(data, "image_url_360x270", "image_url") ?? (username ? roomImageUrl(username) : null),
+    fetched_at: Date.now(),
+    error: rawStatus ? null : "missing_room_status",
   }
 }
 
-// Global rate limiter instance
-const rateLimiter = new APIRateLimiter()
+export async function fetchModelStatus(modelName: string, maxWaitMs = DEFAULT_MAX_WAIT_MS): Promise<RoomSnapshot> {
+  if (!(await isRequestAllowed(PROVIDER_ID))) {
+    return emptySnapshot("unknown", "circuit_open")
+  }
+
+  const snapshot = await requestModelStatus(modelName, maxWaitMs)
+  if (snapshot.error === LOCAL_RATE_LIMIT) return snapshot
+  if (snapshot.show_type === "unknown") {
+    await recordFailure(PROVIDER_ID, snapshot.error)
+  } else {
+    await recordSuccess(PROVIDER_ID)
+  }
+  return snapshot
+}
 
-export async function fetchModelStatus(modelName: string): Promise<"online" | "offline" | "unknown"> {
+async function requestModelStatus(modelName: string, maxWaitMs: number): Promise<RoomSnapshot> {
   const apiUrl = `https://chaturbate.com/api/chatvideocontext/${modelName}/`
   
   try {
-    const result = await rateLimiter.callWithLimit(async () => {
+    const result = await callWithLimit(async () => {
       const res = await fetch(apiUrl, { 
         headers: { "User-Agent": "Deno-StatusBot/2.0" },
         signal: AbortSignal.timeout(10000) // 10 second timeout
       })
       
-      if (res.status === 404) return "offline" // Model doesn't exist
+      if (res.status === 404) return emptySnapshot("offline", "not_found") // Model doesn't exist
       if (res.status === 429) {
-        // Rate limited, throw error to trigger backoff
-        throw new Error(`Rate limited for ${modelName}`)
+        // Rate limited, block the shared bucket and give up on this one
+        await handleRateLimited(res, modelName)
       }
       if (!res.ok) {
         console.warn(`API error for ${modelName}: ${res.status} ${res.statusText}`)
-        return "unknown"
+        return emptySnapshot("unknown", `http_${res.status}`)
       }
       
       const data = await res.json()
-      return data.room_status === "offline" ? "offline" : "online"
-    })
+      return parseSnapshot(data)
+    }, maxWaitMs)
     
     return result
   } catch (error) {
-    console.error(`Failed to fetch status for ${modelName}:`, error.message)
-    return "unknown"
+    const reason = error instanceof Error ? error.message : String(error)
+    console.error(`Failed to fetch status for ${modelName}:`, reason)
+    return emptySnapshot("unknown", reason)
   }
 }
+
+// Affiliate campaign code required by the online-rooms listing
+const AFFILIATE_WM = Deno.env.get("CB_AFFILIATE_WM")
+const ONLINE_ROOMS_PAGE_SIZE = 500
+const ONLINE_ROOMS_MAX_PAGES = 40
+
+function parseListingRoom(room: RawRoom): RoomSnapshot {
+  return parseSnapshot({ ...room, room_status: room.current_show })
+}
+
+/**
+ * Fetches every online room from the affiliate listing, page by page.
+ * Returns null if the listing is not configured or any page fails, so the
+ * caller can fall back to per-model lookups.
+ */
+export async function fetchOnlineRooms(): Promise<Map<string, RoomSnapshot> | null> {
+  if (!AFFILIATE_WM) return null
+  if (!(await isRequestAllowed(PROVIDER_ID))) return null
+
+  const rooms = new Map<string, RoomSnapshot>()
+
+  try {
+    for (let page = 0; page < ONLINE_ROOMS_MAX_PAGES; page++) {
+      const offset = page * ONLINE_ROOMS_PAGE_SIZE
+      const apiUrl = `https://chaturbate.com/api/public/affiliates/onlinerooms/?wm=${AFFILIATE_WM}` +
+        `&client_ip=request_ip&format=json&limit=${ONLINE_ROOMS_PAGE_SIZE}&offset=${offset}`
+
+      const data = await callWithLimit(async () => {
+        const res = await fetch(apiUrl, {
+          headers: { "User-Agent": "Deno-StatusBot/2.0" },
+          signal: AbortSignal.timeout(15000) // 15 second timeout per page
+        })
+
+        if (res.status === 429) {
+          await handleRateLimited(res, "online rooms listing")
+        }
+        if (!res.ok) {
+          throw new Error(`Online rooms listing error: ${res.status} ${res.statusText}`)
+        }
+
+        return await res.json()
+      })
+
+      const results: unknown[] = Array.isArray(data.results) ? data.results : []
+      for (const room of results) {
+        if (isRawRoom(room) && typeof room.username === "string") {
+          rooms.set(room.username.toLowerCase(), parseListingRoom(room))
+        }
+      }
+
+      // Last page reached
+      if (results.length < ONLINE_ROOMS_PAGE_SIZE || offset + results.length >= (data.count ?? 0)) {
+        await recordSuccess(PROVIDER_ID)
+        return rooms
+      }
+    }
+
+    console.warn(`Online rooms listing has more than ${ONLINE_ROOMS_MAX_PAGES} pages, using per-model lookups`)
+    return null
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error)
+    console.error("Failed to fetch online rooms listing:", reason)
+    if (reason !== LOCAL_RATE_LIMIT) await recordFailure(PROVIDER_ID, reason)
+    return null
+  }
+}
+
+// Usernames are lowercase letters, digits and underscores
+const USERNAME_PATTERN = /^[a-z0-9_]{1,64}$/
+
+// First path segments that are pages of the site rather than rooms
+const SITE_PATHS = new Set([
+  "in", "tags", "tag", "accounts", "auth", "api", "affiliates", "apps", "tube", "tipping", "supporter",
+  "security", "terms", "privacy", "law_enforcement", "2257", "contest", "emoticons", "external_link",
+  "followed-cams", "female-cams", "male-cams", "couple-cams", "trans-cams", "photo_videos", "b",
+])
+
+// Room links look like https://chaturbate.com/alice/, on any subdomain
+// (www., m., language ones). Profile pages add a "p/" in front, and
+// affiliate links (https://chaturbate.com/in/?...&room=alice) name the room
+// in a query parameter.
+function parseRoomUrl(url: URL): string | null {
+  if (url.hostname !== "chaturbate.com" && !url.hostname.endsWith(".chaturbate.com")) return null
+
+  const room = url.searchParams.get("room")
+  if (room) return room
+
+  const segments = url.pathname.split("/").filter(Boolean)
+  if (segments[0] === "p") return segments[1] ?? null
+  if (!segments[0] || SITE_PATHS.has(segments[0])) return null
+  return segments[0]
+}
+
+export const chaturbateProvider: StatusProvider = {
+  id: PROVIDER_ID,
+  name: "Chaturbate",
+  fetchStatus: fetchModelStatus,
+  fetchOnlineRooms,
+  roomUrl: (username) => `https://chaturbate.com/${username}/`,
+  isValidUsername: (username) => USERNAME_PATTERN.test(username),
+  parseRoomUrl,
+}
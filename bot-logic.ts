@@ -4,9 +4,43 @@
 // It uses the database module to manage subscriptions and keeps the main
 // server file clean.
 
-import { type Bot, InlineKeyboard, Keyboard } from "https://deno.land/x/grammy@v1.24.0/mod.ts"
+import { type Bot, type Context, InlineKeyboard, InputFile, Keyboard } from "https://deno.land/x/grammy@v1.24.0/mod.ts"
 import * as db from "./database.ts"
-import { escapeHTML, sanitizeModelName, parseAdminIds, isUserBlocked } from "./utils.ts"
+import {
+  escapeHTML,
+  formatDuration,
+  formatTimeOfDay,
+  isMessageNotModified,
+  isUserBlocked,
+  isValidTimeZone,
+  normalizeTag,
+  parseAdminIds,
+  parseTimeOfDay,
+  splitModelList,
+} from "./utils.ts"
+import { describeCircuit } from "./circuit-breaker.ts"
+import { lookupModel, lookupStatus, type StatusLookup } from "./model-lookup.ts"
+import { acquireToken, type RateLimit } from "./rate-limiter.ts"
+import { DEFAULT_TIER, formatQuota, getQuota, getQuotaReport, remainingQuota, TIER_LIMITS } from "./quotas.ts"
+import {
+  type ExportedSubscription,
+  exportSubscriptions,
+  MAX_IMPORT_BYTES,
+  MAX_IMPORT_ENTRIES,
+  parseImport,
+  prefsDiffer,
+  previewNames,
+} from "./subscription-io.ts"
+import {
+  DEFAULT_PROVIDER_ID,
+  displayModelName,
+  getProvider,
+  parseModelKey,
+  resolveModelKey,
+  type RoomState,
+  roomUrlFor,
+  toRoomState,
+} from "./status-provider.ts"
 
 const BOT_USERNAME = Deno.env.get("BOT_USERNAME") || "your_bot"
 const ADMIN_IDS = parseAdminIds(Deno.env.get("ADMIN_IDS"))
@@ -16,7 +50,13 @@ console.log(`   Username: ${BOT_USERNAME}`)
 console.log(`   Admin IDs: ${ADMIN_IDS.join(", ") || "None"}`)
 
 // Create main keyboard for regular users
-const mainKeyboard = new Keyboard().text("➕ Add Model").text("➖ Remove Model").row().text("📋 My List").resized()
+const mainKeyboard = new Keyboard()
+  .text("➕ Add Model")
+  .text("➖ Remove Model")
+  .row()
+  .text("📋 My List")
+  .text("⚙️ Settings")
+  .resized()
 
 // Create admin keyboard
 const adminKeyboard = new Keyboard()
@@ -24,6 +64,8 @@ const adminKeyboard = new Keyboard()
   .text("➖ Remove Model")
   .row()
   .text("📋 My List")
+  .text("⚙️ Settings")
+  .row()
   .text("👑 Admin Panel")
   .resized()
 
@@ -32,15 +74,536 @@ const adminPanelKeyboard = new Keyboard().text("📢 Broadcast").text("📊 Stat
 
 // User state management moved to database for persistence
 
+// Labels for the notification toggles in the settings screen
+const EVENT_LABELS: Record<db.StatusEvent, string> = {
+  online: "🟢 Comes online",
+  offline: "⚫ Goes offline",
+  private: "🔒 Private show starts",
+  group: "👥 Group show starts",
+  away: "💤 Goes away",
+  hidden: "🙈 Hidden show starts",
+  public: "🎭 Show ends (back to public)",
+}
+
 function isAdmin(userId: number): boolean {
   return ADMIN_IDS.includes(userId)
 }
 
+// Choices for how long a model must be online before the ONLINE message
+const GRACE_OPTIONS_MINUTES = [0, 2, 5, 10, 15, 30]
+
+function formatGrace(ms: number): string {
+  return ms === 0 ? "instant" : `${Math.round(ms / 60000)} min`
+}
+
+const DELIVERY_LABELS: Record<db.DeliveryMode, string> = {
+  realtime: "real-time",
+  daily: "daily digest",
+  weekly: "weekly digest",
+}
+
+function buildSettingsKeyboard(settings: db.UserSettings): InlineKeyboard {
+  const keyboard = new InlineKeyboard()
+  keyboard.text(`📰 Delivery: ${DELIVERY_LABELS[settings.delivery]}`, "cycle_delivery").row()
+  for (const event of db.ALL_STATUS_EVENTS) {
+    const mark = settings.events.includes(event) ? "✅" : "⬜"
+    keyboard.text(`${mark} ${EVENT_LABELS[event]}`, `toggle_event_${event}`).row()
+  }
+  keyboard.text(`⏱ Online alert delay: ${formatGrace(settings.grace_period_ms)}`, "cycle_grace").row()
+  keyboard.text(`🔄 Live-updating message: ${settings.live_message ? "on" : "off"}`, "toggle_live").row()
+  keyboard.text(`🖼 Room photo with alerts: ${settings.photo_notifications ? "on" : "off"}`, "toggle_photo").row()
+  const quietHours = settings.quiet_hours
+    ? `${formatTimeOfDay(settings.quiet_hours.start)}–${formatTimeOfDay(settings.quiet_hours.end)}`
+    : "off"
+  keyboard.text(`🌙 Quiet hours: ${quietHours}`, "set_quiet_hours").row()
+  keyboard.text(`🌍 Time zone: ${settings.timezone}`, "set_timezone").row()
+  return keyboard
+}
+
+// Choices for which transitions a single subscription sends
+const SUBSCRIPTION_EVENT_PRESETS: { label: string; events: db.StatusEvent[] | null }[] = [
+  { label: "my settings", events: null },
+  { label: "online only", events: ["online"] },
+  { label: "offline only", events: ["offline"] },
+  { label: "online + offline", events: ["online", "offline"] },
+]
+
+function findEventPreset(events: db.StatusEvent[] | null): number {
+  return SUBSCRIPTION_EVENT_PRESETS.findIndex((preset) =>
+    preset.events === null
+      ? events === null
+      : events !== null && preset.events.length === events.length && preset.events.every((e) => events.includes(e))
+  )
+}
+
+// Tags are typed in a private chat, so groups get the editor without the tag button
+async function buildSubscriptionKeyboard(
+  modelKey: string,
+  prefs: db.SubscriptionPrefs,
+  tags: string[] | null,
+): Promise<InlineKeyboard> {
+  const preset = findEventPreset(prefs.events)
+  const eventsLabel = preset === -1 ? "custom" : SUBSCRIPTION_EVENT_PRESETS[preset].label
+  const graceLabel = prefs.grace_period_ms === null ? "my settings" : formatGrace(prefs.grace_period_ms)
+  const ref = await db.getModelRef(modelKey)
+
+  const keyboard = new InlineKeyboard()
+    .text(`🔔 Alerts: ${eventsLabel}`, `subev_${ref}`).row()
+    .text(`⏱ Online alert delay: ${graceLabel}`, `subgr_${ref}`).row()
+    .text(`🔇 Muted: ${prefs.muted ? "yes" : "no"}`, `submute_${ref}`).row()
+  if (tags) {
+    keyboard.text(`🏷 Tags: ${tags.length > 0 ? tags.join(", ") : "none"}`, `subtags_${ref}`).row()
+  }
+  return keyboard
+}
+
+function buildSubscriptionText(modelKey: string, prefs: db.SubscriptionPrefs, tags: string[]): string {
+  const tagLine = tags.length > 0 ? `Tags: ${tags.map((tag) => `#${tag}`).join(" ")}\n\n` : ""
+  return `⚙️ <b>Alerts for ${escapeHTML(displayModelName(modelKey))}</b>\n\n` +
+    `Subscribed since ${new Date(prefs.created_at).toISOString().slice(0, 10)}.\n\n` +
+    tagLine +
+    "These choices apply to this model only and replace your ⚙️ Settings and tag settings for it. " +
+    "A muted model stays on your list but sends nothing."
+}
+
+const MAX_TAGS_PER_SUBSCRIPTION = 5
+
+function buildTagSettingsText(tag: string, modelCount: number): string {
+  return `🏷 <b>#${escapeHTML(tag)}</b> (${modelCount} ${modelCount === 1 ? "model" : "models"})\n\n` +
+    "These choices apply to every model with this tag. A model's own ⚙️ Alerts choices win over them, " +
+    "but a muted tag always mutes. With several tags, the shortest delay wins."
+}
+
+function buildTagSettingsKeyboard(tag: string, settings: db.TagSettings): InlineKeyboard {
+  const deliveryLabel = settings.delivery === null ? "my settings" : DELIVERY_LABELS[settings.delivery]
+  const graceLabel = settings.grace_period_ms === null ? "my settings" : formatGrace(settings.grace_period_ms)
+
+  return new InlineKeyboard()
+    .text(`🔇 Muted: ${settings.muted ? "yes" : "no"}`, `tagmute_${tag}`).row()
+    .text(`📰 Delivery: ${deliveryLabel}`, `tagdel_${tag}`).row()
+    .text(`⏱ Online alert delay: ${graceLabel}`, `taggr_${tag}`).row()
+    .text("◀️ Back to list", `list_0_${tag}`)
+}
+
+// Cycles through "my settings" followed by every delay option
+function nextGracePeriod(current: number | null): number | null {
+  const currentIndex = current === null ? -1 : GRACE_OPTIONS_MINUTES.indexOf(Math.round(current / 60000))
+  const nextIndex = currentIndex + 1
+  return nextIndex >= GRACE_OPTIONS_MINUTES.length ? null : GRACE_OPTIONS_MINUTES[nextIndex] * 60000
+}
+
+const SNOOZE_MS = 24 * 60 * 60 * 1000
+
+// Buttons carry a model ref rather than the model key, which may not fit in
+// the 64 bytes of callback data. Buttons sent before refs carry the key.
+async function modelFromCallback(value: string): Promise<string> {
+  return (await db.resolveModelRef(value)) ?? value
+}
+
+// Deep link payloads may only contain A-Z, a-z, 0-9, "_" and "-", so the
+// provider prefix is joined with "-" and left out for the default provider
+function toStartPayload(modelKey: string): string {
+  const { providerId, username } = parseModelKey(modelKey)
+  return providerId === DEFAULT_PROVIDER_ID ? username : `${providerId}-${username}`
+}
+
+function fromStartPayload(payload: string): string | null {
+  const separator = payload.indexOf("-")
+  if (separator !== -1 && getProvider(payload.slice(0, separator))) {
+    return resolveModelKey(`${payload.slice(0, separator)}:${payload.slice(separator + 1)}`)
+  }
+  return resolveModelKey(payload)
+}
+
+// Anyone may manage a private chat's subscriptions; in groups and channels
+// only the chat's administrators may. Channel posts and anonymous group
+// admins are sent as the chat itself, which only its admins can do.
+async function canManageChat(ctx: Context): Promise<boolean> {
+  const chat = ctx.chat
+  if (!chat) return false
+  if (chat.type === "private") return true
+  if (ctx.senderChat?.id === chat.id) return true
+  if (!ctx.from) return false
+
+  try {
+    const member = await ctx.api.getChatMember(chat.id, ctx.from.id)
+    return member.status === "creator" || member.status === "administrator"
+  } catch (error) {
+    console.error(`Failed to check admin rights of ${ctx.from.id} in ${chat.id}:`, error)
+    return false
+  }
+}
+
+// Most names one message may add or remove. Every new name is looked up,
+// which goes through the shared upstream rate limit.
+const MAX_BULK_ITEMS = 25
+
+// The lookups for one message, import or pack share this much waiting for
+// the rate limit. Names that can't be checked in time are added unverified
+// rather than holding up the reply.
+const LOOKUP_BUDGET_MS = 3_000
+
+type BulkOutcome =
+  | "added"
+  | "unverified"
+  | "already"
+  | "over_limit"
+  | "removed"
+  | "not_subscribed"
+  | "invalid"
+  | "not_found"
+
+interface BulkResult {
+  input: string
+  modelKey: string | null
+  outcome: BulkOutcome
+}
+
+const OUTCOME_LABELS: Record<BulkOutcome, string> = {
+  added: "✅ added",
+  unverified: "✅ added, but couldn't be verified right now",
+  already: "☑️ already subscribed",
+  over_limit: "🚫 not added, the list is full",
+  removed: "🗑️ removed",
+  not_subscribed: "➖ wasn't subscribed",
+  invalid: "❌ not a valid username or room link",
+  not_found: "🔍 doesn't exist",
+}
+
+// Subscribes the chat to every model in the message, after checking that
+// each one exists so typos don't get tracked forever
+async function addModels(chatId: number, text: string): Promise<BulkResult[]> {
+  const subscriptions = await db.getUserSubscriptions(chatId)
+  const quota = await getQuota(chatId)
+  const results: BulkResult[] = []
+  const deadline = Date.now() + LOOKUP_BUDGET_MS
+
+  for (const input of splitModelList(text)) {
+    const modelKey = resolveModelKey(input)
+    if (!modelKey) {
+      results.push({ input, modelKey, outcome: "invalid" })
+    } else if (subscriptions.includes(modelKey) || results.some((r) => r.modelKey === modelKey)) {
+      results.push({ input, modelKey, outcome: "already" })
+    } else if (remainingQuota(quota) === 0) {
+      // Checked before the lookup, which would be wasted
+      results.push({ input, modelKey, outcome: "over_limit" })
+    } else {
+      const lookup = await lookupModel(modelKey, Math.max(deadline - Date.now(), 0))
+      if (lookup.status === "not_found") {
+        results.push({ input, modelKey, outcome: "not_found" })
+        continue
+      }
+
+      await db.addUser(chatId)
+      const subscribed = await db.addUserSubscription(chatId, modelKey, quota.limit)
+      if (!subscribed.ok) {
+        results.push({ input, modelKey, outcome: subscribed.reason })
+        continue
+      }
+      quota.used++
+      results.push({ input, modelKey, outcome: lookup.status === "unknown" ? "unverified" : "added" })
+    }
+  }
+
+  return results
+}
+
+async function removeModels(chatId: number, text: string): Promise<BulkResult[]> {
+  const subscriptions = await db.getUserSubscriptions(chatId)
+  const results: BulkResult[] = []
+
+  for (const input of splitModelList(text)) {
+    const modelKey = resolveModelKey(input)
+    if (!modelKey) {
+      results.push({ input, modelKey, outcome: "invalid" })
+    } else if (!subscriptions.includes(modelKey)) {
+      results.push({ input, modelKey, outcome: "not_subscribed" })
+    } else {
+      await db.removeUserSubscription(chatId, modelKey)
+      subscriptions.splice(subscriptions.indexOf(modelKey), 1)
+      results.push({ input, modelKey, outcome: "removed" })
+    }
+  }
+
+  return results
+}
+
+// One line per name, plus a hint when some couldn't be used
+function formatBulkReport(results: BulkResult[]): string {
+  const lines = results.map(({ input, modelKey, outcome }) => {
+    const name = escapeHTML(modelKey ? displayModelName(modelKey) : input)
+    return `<code>${name}</code> - ${OUTCOME_LABELS[outcome]}`
+  })
+
+  if (results.some((r) => r.outcome === "not_found" || r.outcome === "invalid")) {
+    lines.push("", "Check the spelling of those and send them again.")
+  }
+  if (results.some((r) => r.outcome === "unverified")) {
+    lines.push("", "⚠️ If an unverified name turns out to be misspelled, you'll be told.")
+  }
+  if (results.some((r) => r.outcome === "over_limit")) {
+    lines.push("", "🚫 That's the most models this chat can follow. Remove some to make room for new ones.")
+  }
+  return lines.join("\n")
+}
+
+const LIST_PAGE_SIZE = 10
+const LIST_TAG_BUTTONS = 9
+
+const STATE_ICONS: Record<Exclude<RoomState, "offline">, string> = {
+  public: "🟢",
+  private: "🔒",
+  group: "👥",
+  away: "💤",
+  hidden: "🙈",
+}
+
+// One line of the list, e.g. "🟢 alice - online 1hr 5m"
+function describeListEntry(model: string, status: db.ModelStatus | undefined, lastOnlineAt: number | null, now: number): string {
+  const name = `<code>${escapeHTML(displayModelName(model))}</code>`
+  if (status && status.status !== "offline") {
+    const showText = status.status === "public" ? "" : `${status.status}, `
+    return `${STATE_ICONS[status.status]} ${name} - ${showText}online ${formatDuration(now - (status.online_since ?? now))}`
+  }
+  if (lastOnlineAt) return `⚫ ${name} - last seen ${formatDuration(now - lastOnlineAt)} ago`
+  return `⚫ ${name} - not seen online yet`
+}
+
+/**
+ * Builds one page of a chat's subscription list with each model's current
+ * status, online models first, and remove/share/settings buttons per row.
+ * @param page Zero-based page; out of range pages show the last one.
+ * @param footer Extra line under the list.
+ * @param tag Only list models with this tag; empty for all of them.
+ */
+async function buildSubscriptionList(
+  chatId: number,
+  page: number,
+  footer = "",
+  tag = "",
+): Promise<{ text: string; keyboard: InlineKeyboard } | null> {
+  const allSubs = await db.getUserSubscriptions(chatId)
+  if (allSubs.length === 0) return null
+
+  const tagsByModel = await db.getSubscriptionTagsByChat(chatId)
+  const chatTags = [...new Set([...tagsByModel.values()].flat())].sort()
+  const subs = tag ? allSubs.filter((model) => tagsByModel.get(model)?.includes(tag)) : allSubs
+
+  const statuses = await db.getStoredModelStatuses(subs)
+  const schedules = await db.getModelSchedules(subs)
+  const now = Date.now()
+
+  // Online first (longest session first), then most recently seen
+  const isLive = (model: string) => (statuses.get(model)?.status ?? "offline") !== "offline"
+  const sorted = [...subs].sort((a, b) => {
+    if (isLive(a) !== isLive(b)) return isLive(a) ? -1 : 1
+    if (isLive(a)) return (statuses.get(a)?.online_since ?? now) - (statuses.get(b)?.online_since ?? now)
+    const seen = (schedules.get(b)?.last_online_at ?? 0) - (schedules.get(a)?.last_online_at ?? 0)
+    return seen !== 0 ? seen : a.localeCompare(b)
+  })
+
+  const pageCount = Math.ceil(sorted.length / LIST_PAGE_SIZE)
+  const current = Math.max(Math.min(page, pageCount - 1), 0)
+  const pageModels = sorted.slice(current * LIST_PAGE_SIZE, (current + 1) * LIST_PAGE_SIZE)
+  const onlineCount = subs.filter(isLive).length
+
+  const title = tag ? `<b>Your subscriptions tagged #${escapeHTML(tag)}</b>` : "<b>Your subscriptions</b>"
+  const lines = [`${title} (${subs.length}, ${onlineCount} online)`, ""]
+  if (subs.length === 0) lines.push("No models have this tag any more.")
+  const keyboard = new InlineKeyboard()
+  for (const model of pageModels) {
+    lines.push(describeListEntry(model, statuses.get(model), schedules.get(model)?.last_online_at ?? null, now))
+    const ref = await db.getModelRef(model)
+    keyboard
+      .text(`🗑 ${displayModelName(model)}`, `listrm_${current}_${tag}_${ref}`)
+      .text("🔗 Share", `share_${ref}`)
+      .text("⚙️ Alerts", `subprefs_${ref}`)
+      .row()
+  }
+
+  if (pageCount > 1) {
+    lines.push("", `Page ${current + 1} of ${pageCount}`)
+    if (current > 0) keyboard.text("◀️ Prev", `list_${current - 1}_${tag}`)
+    keyboard.text("🔄 Refresh", `list_${current}_${tag}`)
+    if (current < pageCount - 1) keyboard.text("Next ▶️", `list_${current + 1}_${tag}`)
+  } else {
+    keyboard.text("🔄 Refresh", `list_${current}_${tag}`)
+  }
+
+  // Filter by tag, three buttons to a row
+  const filters = chatTags.filter((t) => t !== tag).slice(0, LIST_TAG_BUTTONS)
+    .map((t) => ({ label: `🏷 ${t}`, data: `list_0_${t}` }))
+  if (tag) filters.unshift({ label: "📋 All", data: "list_0_" })
+  filters.forEach((filter, i) => {
+    if (i % 3 === 0) keyboard.row()
+    keyboard.text(filter.label, filter.data)
+  })
+  if (tag) keyboard.row().text(`⚙️ #${tag} settings`, `tagset_${tag}`)
+  if (footer) lines.push("", footer)
+
+  return { text: lines.join("\n"), keyboard }
+}
+
+const LIST_FOOTER = "Tag models under ⚙️ Alerts to sort them into folders, and share them with /packs. " +
+  "Back up this list with /export, or bring one over with /import."
+
+const MAX_PACKS_PER_USER = 10
+const MAX_PACK_MODELS = 100
+const MAX_PACK_NAME_LENGTH = 40
+const PACK_PAGE_SIZE = 8
+
+// Usernames can't contain "-" and no provider is called "pack", so a pack
+// link can't be mistaken for a model. Links from before used "pack_", which
+// a username may start with; those only open a pack if one exists.
+const PACK_PAYLOAD_PREFIX = "pack-"
+const LEGACY_PACK_PAYLOAD_PREFIX = "pack_"
+
+function packLink(id: string): string {
+  return `https://t.me/${BOT_USERNAME}?start=${PACK_PAYLOAD_PREFIX}${id}`
+}
+
+// The user's published packs, with buttons to publish another or delete one
+async function buildPacksOverview(userId: number): Promise<{ text: string; keyboard: InlineKeyboard }> {
+  const packs = await db.getUserPacks(userId)
+  const lines = ["📦 <b>Your packs</b>", ""]
+  const keyboard = new InlineKeyboard()
+
+  if (packs.length === 0) {
+    lines.push("A pack is a named list of models others can subscribe to with one link.")
+  }
+  for (const pack of packs) {
+    lines.push(
+      `<b>${escapeHTML(pack.name)}</b> - ${pack.models.length} models, imported by ${pack.import_count}`,
+      `<code>${packLink(pack.id)}</code>`,
+      "",
+    )
+    keyboard.text(`🗑 ${pack.name}`, `packdel_${pack.id}`).row()
+  }
+
+  if (packs.length < MAX_PACKS_PER_USER) {
+    // Publish the whole list or one of its tags
+    const tagsByModel = await db.getSubscriptionTagsByChat(userId)
+    const tags = [...new Set([...tagsByModel.values()].flat())].sort().slice(0, LIST_TAG_BUTTONS)
+    keyboard.text("➕ New pack from my list", "packnew_").row()
+    tags.forEach((tag, i) => {
+      if (i > 0 && i % 3 === 0) keyboard.row()
+      keyboard.text(`➕ #${tag}`, `packnew_${tag}`)
+    })
+  } else {
+    lines.push(`You have the most packs allowed (${MAX_PACKS_PER_USER}). Delete one to publish another.`)
+  }
+
+  return { text: lines.join("\n").trim(), keyboard }
+}
+
+function buildPackPreview(pack: db.Pack, subscriptions: string[]): { text: string; keyboard: InlineKeyboard } {
+  const following = pack.models.filter((model) => subscriptions.includes(model)).length
+  const lines = [
+    `📦 <b>${escapeHTML(pack.name)}</b>`,
+    "",
+    `${pack.models.length} models: ${escapeHTML(previewNames(pack.models, 20))}`,
+  ]
+  if (following > 0) lines.push("", `☑️ You already follow ${following} of them.`)
+
+  const keyboard = new InlineKeyboard()
+    .text("✅ Subscribe to all", `packall_${pack.id}`)
+    .text("☑️ Choose", `packpick_${pack.id}`)
+  return { text: lines.join("\n"), keyboard }
+}
+
+// One page of the pack with a checkbox per model. The selection lives in the
+// user state, so the buttons only carry positions in the pack.
+function buildPackPicker(pack: db.Pack, selected: string[], page: number): { text: string; keyboard: InlineKeyboard } {
+  const pageCount = Math.ceil(pack.models.length / PACK_PAGE_SIZE)
+  const current = Math.max(Math.min(page, pageCount - 1), 0)
+  const start = current * PACK_PAGE_SIZE
+
+  const keyboard = new InlineKeyboard()
+  pack.models.slice(start, start + PACK_PAGE_SIZE).forEach((model, i) => {
+    const mark = selected.includes(model) ? "✅" : "⬜"
+    keyboard.text(`${mark} ${displayModelName(model)}`, `packtog_${current}_${start + i}`).row()
+  })
+  if (pageCount > 1) {
+    if (current > 0) keyboard.text("◀️ Prev", `packpg_${current - 1}`)
+    if (current < pageCount - 1) keyboard.text("Next ▶️", `packpg_${current + 1}`)
+    keyboard.row()
+  }
+  keyboard.text(`➕ Subscribe to ${selected.length}`, "packadd").text("❌ Cancel", "packcancel")
+
+  const text = `📦 <b>${escapeHTML(pack.name)}</b>\n\nTap the models you want, then subscribe.` +
+    (pageCount > 1 ? `\n\nPage ${current + 1} of ${pageCount}` : "")
+  return { text, keyboard }
+}
+
+interface PackResult {
+  added: number
+  already: number
+  skipped: number // Over the quota
+  missing: number // No longer exist
+}
+
+// Subscribes to models from a pack, as far as the user's quota allows
+async function subscribeToPack(
+  userId: number,
+  pack: db.Pack,
+  models: string[],
+): Promise<PackResult> {
+  const subscriptions = await db.getUserSubscriptions(userId)
+  const { limit } = await getQuota(userId)
+  const result = { added: 0, already: 0, skipped: 0, missing: 0 }
+  const deadline = Date.now() + LOOKUP_BUDGET_MS
+
+  await db.addUser(userId)
+  for (const model of models) {
+    if (subscriptions.includes(model)) {
+      result.already++
+    } else if ((await lookupModel(model, Math.max(deadline - Date.now(), 0))).status === "not_found") {
+      result.missing++
+    } else {
+      const subscribed = await db.addUserSubscription(userId, model, limit)
+      if (!subscribed.ok) result.skipped++
+      else if (subscribed.added) result.added++
+      else result.already++
+    }
+  }
+
+  if (result.added > 0) await db.recordPackImport(pack.id, userId)
+  return result
+}
+
+function formatPackResult(pack: db.Pack, result: PackResult): string {
+  const lines = [`✅ Subscribed to ${result.added} models from <b>${escapeHTML(pack.name)}</b>.`]
+  if (result.already > 0) lines.push(`☑️ ${result.already} you already followed.`)
+  if (result.skipped > 0) lines.push(`🚫 ${result.skipped} didn't fit on your list and were skipped.`)
+  if (result.missing > 0) lines.push(`🔍 ${result.missing} don't exist anymore and were skipped.`)
+  return lines.join("\n")
+}
+
+const GROUP_HELP_TEXT = "🎭 <b>Model alerts for this chat</b>\n\n" +
+  "I'll post here when the chat's models come online.\n\n" +
+  "/add <code>username</code> - follow models (names or room links, several at once)\n" +
+  "/remove <code>username</code> - stop following models\n" +
+  "/list - models this chat follows\n\n" +
+  "Only chat administrators can add or remove models."
+
+const SETTINGS_TEXT = "⚙️ <b>Notification Settings</b>\n\n" +
+  "Choose which changes you want to be told about.\n\n" +
+  "The online alert delay waits until a model has been live that long, so short test streams don't ping you.\n\n" +
+  "A live-updating message is edited while the model streams and becomes the session summary at the end, instead of separate ONLINE and OFFLINE messages.\n\n" +
+  "With the room photo on, ONLINE alerts show the room's current preview image (not with live-updating messages).\n\n" +
+  "During quiet hours nothing is sent; you get one summary when they end.\n\n" +
+  "With a digest you get one report a day (or on Mondays) instead of individual messages."
+
 export function registerMessageHandlers(bot: Bot) {
   console.log("🔧 Registering message handlers...")
 
+  // The keyboard menus and conversations are for private chats; groups and
+  // channels are managed with commands
+  const privateChats = bot.chatType("private")
+  const sharedChats = bot.chatType(["group", "supergroup", "channel"])
+
   // Handle /start command with deep linking
-  bot.command("start", async (ctx) => {
+  privateChats.command("start", async (ctx) => {
     console.log(`📥 /start command from user ${ctx.from.id}`)
 
     try {
@@ -50,12 +613,57 @@ export function registerMessageHandlers(bot: Bot) {
       const payload = ctx.match
       if (payload) {
         console.log(`🔗 Deep link payload: ${payload}`)
+        // Deep link to a pack
+        const isPackLink = payload.startsWith(PACK_PAYLOAD_PREFIX)
+        const pack = isPackLink
+          ? await db.getPack(payload.slice(PACK_PAYLOAD_PREFIX.length))
+          : payload.startsWith(LEGACY_PACK_PAYLOAD_PREFIX)
+          ? await db.getPack(payload.slice(LEGACY_PACK_PAYLOAD_PREFIX.length))
+          : null
+        if (isPackLink && !pack) {
+          await ctx.reply("📦 That pack doesn't exist anymore.", {
+            reply_markup: isAdmin(ctx.from.id) ? adminKeyboard : mainKeyboard,
+          })
+          return
+        }
+        if (pack) {
+          const preview = buildPackPreview(pack, await db.getUserSubscriptions(ctx.from.id))
+          await ctx.reply(preview.text, { parse_mode: "HTML", reply_markup: preview.keyboard })
+          console.log(`📦 Showed pack ${pack.id} to user ${ctx.from.id}`)
+          return
+        }
+
         // Deep link subscription
-        const modelName = sanitizeModelName(payload)
+        const modelName = fromStartPayload(payload)
         if (modelName) {
-          await db.addUserSubscription(ctx.from.id, modelName)
+          if ((await lookupModel(modelName, LOOKUP_BUDGET_MS)).status === "not_found") {
+            await ctx.reply(
+              `🔍 <code>${escapeHTML(displayModelName(modelName))}</code> doesn't exist, so I couldn't subscribe you. ` +
+                `The link may be misspelled or the account deleted.`,
+              {
+                parse_mode: "HTML",
+                reply_markup: isAdmin(ctx.from.id) ? adminKeyboard : mainKeyboard,
+              },
+            )
+            console.log(`🔍 Deep link from user ${ctx.from.id} to missing model ${modelName}`)
+            return
+          }
+
+          const quota = await getQuota(ctx.from.id)
+          if (!(await db.addUserSubscription(ctx.from.id, modelName, quota.limit)).ok) {
+            await ctx.reply(
+              `🚫 You're already following ${quota.used} models, the most your plan allows, so I couldn't add ` +
+                `<code>${escapeHTML(displayModelName(modelName))}</code>.\n\nRemove some under 📋 My List to make room.`,
+              {
+                parse_mode: "HTML",
+                reply_markup: isAdmin(ctx.from.id) ? adminKeyboard : mainKeyboard,
+              },
+            )
+            console.log(`🚫 User ${ctx.from.id} is at their limit, not subscribed to ${modelName}`)
+            return
+          }
           await ctx.reply(
-            `✅ Welcome! You've been automatically subscribed to <code>${escapeHTML(modelName)}</code>.\n\nYou'll receive notifications when they come online!`,
+            `✅ Welcome! You've been automatically subscribed to <code>${escapeHTML(displayModelName(modelName))}</code>.\n\nYou'll receive notifications when they come online!`,
             {
               parse_mode: "HTML",
               reply_markup: isAdmin(ctx.from.id) ? adminKeyboard : mainKeyboard,
@@ -87,7 +695,7 @@ export function registerMessageHandlers(bot: Bot) {
   })
 
   // Handle /admin command
-  bot.command("admin", async (ctx) => {
+  privateChats.command("admin", async (ctx) => {
     console.log(`📥 /admin command from user ${ctx.from.id}`)
 
     if (!isAdmin(ctx.from.id)) {
@@ -99,14 +707,265 @@ export function registerMessageHandlers(bot: Bot) {
     console.log(`✅ Sent admin panel to user ${ctx.from.id}`)
   })
 
+  // Handle /check command (admin force-check of a single model)
+  privateChats.command("check", async (ctx) => {
+    console.log(`📥 /check command from user ${ctx.from.id}`)
+    if (!isAdmin(ctx.from.id)) return
+
+    const modelName = resolveModelKey(ctx.match)
+    const provider = modelName ? getProvider(parseModelKey(modelName).providerId) : null
+    if (!modelName || !provider) {
+      await ctx.reply("Usage: /check <username>")
+      return
+    }
+
+    try {
+      // Goes through the same shared rate limiter and circuit breaker as the cron
+      const snapshot = await provider.fetchStatus(parseModelKey(modelName).username)
+      const stored = await db.getStoredModelStatus(modelName)
+      await ctx.reply(
+        `🔎 <b>${escapeHTML(displayModelName(modelName))}</b>\n\n` +
+        `Live: <code>${escapeHTML(snapshot.room_status ?? snapshot.show_type)}</code>` +
+        (snapshot.error ? ` (${escapeHTML(snapshot.error)})` : "") + "\n" +
+        `Stored: <code>${stored?.status ?? "none"}</code>\n` +
+        `Viewers: ${snapshot.num_viewers ?? "?"}`,
+        { parse_mode: "HTML" },
+      )
+    } catch (error) {
+      console.error(`❌ Error in /check handler:`, error)
+      await ctx.reply("❌ An error occurred. Please try again.")
+    }
+  })
+
+  // Handle /tier command (admin view or change of a chat's subscription tier)
+  privateChats.command("tier", async (ctx) => {
+    console.log(`📥 /tier command from user ${ctx.from.id}`)
+    if (!isAdmin(ctx.from.id)) return
+
+    const [chatIdText, tierText] = ctx.match.trim().split(/\s+/)
+    const chatId = Number.parseInt(chatIdText ?? "")
+    const tier = tierText?.toLowerCase()
+    const tierList = [...TIER_LIMITS.keys()].map((name) => `<code>${escapeHTML(name)}</code>`).join(", ")
+    if (isNaN(chatId) || (tier !== undefined && !TIER_LIMITS.has(tier))) {
+      await ctx.reply(`Usage: /tier &lt;chat id&gt; [tier]\n\nTiers: ${tierList}`, { parse_mode: "HTML" })
+      return
+    }
+
+    try {
+      if (tier !== undefined) {
+        await db.setUserTier(chatId, tier === DEFAULT_TIER ? null : tier)
+        console.log(`✅ Admin ${ctx.from.id} moved chat ${chatId} to the ${tier} tier`)
+      }
+      const quota = await getQuota(chatId)
+      await ctx.reply(
+        `📏 Chat <code>${chatId}</code>: ${escapeHTML(formatQuota(quota))}` +
+          (quota.used > quota.limit ? "\n\n⚠️ Over the limit. Existing subscriptions stay, but no new ones can be added." : ""),
+        { parse_mode: "HTML" },
+      )
+    } catch (error) {
+      console.error(`❌ Error in /tier handler:`, error)
+      await ctx.reply("❌ An error occurred. Please try again.")
+    }
+  })
+
   // Add a test command for debugging
-  bot.command("test", async (ctx) => {
+  privateChats.command("test", async (ctx) => {
     console.log(`📥 /test command from user ${ctx.from.id}`)
     await ctx.reply("🧪 Test successful! Bot is responding to commands.")
   })
 
+  // Publish and manage packs
+  privateChats.command("packs", async (ctx) => {
+    console.log(`📥 /packs command from user ${ctx.from.id}`)
+
+    try {
+      const overview = await buildPacksOverview(ctx.from.id)
+      await ctx.reply(overview.text, { parse_mode: "HTML", reply_markup: overview.keyboard })
+    } catch (error) {
+      console.error(`❌ Error in /packs handler:`, error)
+      await ctx.reply("❌ An error occurred. Please try again.")
+    }
+  })
+
+  // Back up subscriptions and their preferences as a document
+  privateChats.command("export", async (ctx) => {
+    const userId = ctx.from.id
+    const format = ctx.match.trim().toLowerCase() === "csv" ? "csv" : "json"
+    console.log(`📥 /export (${format}) from user ${userId}`)
+
+    try {
+      const subscriptions = await db.getUserSubscriptionsWithPrefs(userId)
+      if (subscriptions.length === 0) {
+        await ctx.reply("You are not subscribed to any models yet, so there's nothing to export.")
+        return
+      }
+
+      const document = new TextEncoder().encode(exportSubscriptions(subscriptions, format))
+      const filename = `subscriptions-${new Date().toISOString().slice(0, 10)}.${format}`
+      await ctx.replyWithDocument(new InputFile(document, filename), {
+        caption: `📤 ${subscriptions.length} subscriptions. Send this file back to me to restore them.`,
+      })
+    } catch (error) {
+      console.error(`❌ Error in /export handler:`, error)
+      await ctx.reply("❌ An error occurred. Please try again.")
+    }
+  })
+
+  privateChats.command("import", async (ctx) => {
+    await ctx.reply(
+      "📥 Send me a file to import: an export from /export (JSON or CSV), or a list from another tracker " +
+        "with one name or room link per line.\n\nYou'll see what changes before anything is applied.",
+    )
+  })
+
+  // Documents are always imports, no need to start with /import
+  privateChats.on("message:document", async (ctx) => {
+    const userId = ctx.from.id
+    const document = ctx.message.document
+    console.log(`📥 Document from user ${userId}: ${document.file_name} (${document.file_size} bytes)`)
+
+    try {
+      if ((document.file_size ?? 0) > MAX_IMPORT_BYTES) {
+        await ctx.reply(`❌ That file is too big. Imports can be up to ${MAX_IMPORT_BYTES / 1024} KB.`)
+        return
+      }
+
+      const file = await ctx.getFile()
+      const res = await fetch(`https://api.telegram.org/file/bot${bot.token}/${file.file_path}`, {
+        signal: AbortSignal.timeout(15000),
+      })
+      if (!res.ok) throw new Error(`Download failed: ${res.status}`)
+
+      const parsed = parseImport(await res.text())
+      if (parsed.entries.length > MAX_IMPORT_ENTRIES) {
+        await ctx.reply(`❌ That file has ${parsed.entries.length} models. Imports can have up to ${MAX_IMPORT_ENTRIES}.`)
+        return
+      }
+
+      // Work out the diff against the current subscriptions
+      const current = new Map(await db.getUserSubscriptionsWithPrefs(userId))
+      const added = parsed.entries.filter((entry) => !current.has(entry.model))
+      const changed = parsed.entries.filter((entry) => {
+        const prefs = current.get(entry.model)
+        return prefs && entry.prefs && prefsDiffer(prefs, entry.prefs)
+      })
+      const unchanged = parsed.entries.length - added.length - changed.length
+
+      const lines = ["📥 <b>Import preview</b>", ""]
+      if (added.length > 0) lines.push(`➕ ${added.length} new: ${escapeHTML(previewNames(added.map((e) => e.model)))}`)
+      if (changed.length > 0) {
+        lines.push(`🔄 ${changed.length} with new alert settings: ${escapeHTML(previewNames(changed.map((e) => e.model)))}`)
+      }
+      if (unchanged > 0) lines.push(`☑️ ${unchanged} already subscribed`)
+      if (parsed.invalid.length > 0) {
+        lines.push(`❌ ${parsed.invalid.length} skipped, not a valid name: ${escapeHTML(parsed.invalid.slice(0, 10).join(", "))}`)
+      }
+      const room = remainingQuota(await getQuota(userId))
+      if (added.length > room) {
+        lines.push(`🚫 Only ${room} of the new ones fit on your list; the rest will be skipped.`)
+      }
+
+      if (added.length === 0 && changed.length === 0) {
+        lines.push("", "Nothing to import.")
+        await ctx.reply(lines.join("\n"), { parse_mode: "HTML" })
+        return
+      }
+
+      await db.setUserState(userId, {
+        action: "confirming_import",
+        data: [...added, ...changed],
+        expires: Date.now() + (24 * 60 * 60 * 1000) // Will be updated by setUserState
+      })
+      lines.push("", "Names aren't checked against the site here; ones that don't exist are flagged after a few days.")
+
+      const confirmKeyboard = new InlineKeyboard()
+        .text("✅ Import", "confirm_import")
+        .text("❌ Cancel", "cancel_import")
+      await ctx.reply(lines.join("\n"), { parse_mode: "HTML", reply_markup: confirmKeyboard })
+    } catch (error) {
+      console.error(`❌ Error reading import from user ${userId}:`, error)
+      await ctx.reply("❌ I couldn't read that file. Please send a JSON, CSV or text file.")
+    }
+  })
+
+  // Groups and channels: the bot was added, removed or had its rights changed
+  bot.on("my_chat_member", async (ctx) => {
+    const chat = ctx.myChatMember.chat
+    const status = ctx.myChatMember.new_chat_member.status
+    console.log(`📥 Bot is now ${status} in ${chat.type} ${chat.id}`)
+
+    try {
+      if (status === "left" || status === "kicked") {
+        await db.removeUserAndAllSubscriptions(chat.id)
+        return
+      }
+      if (chat.type === "private" || ctx.myChatMember.old_chat_member.status !== "left") return
+
+      await db.addUser(chat.id)
+      // Posting in a channel needs admin rights, which may come later
+      if (chat.type !== "channel" || status === "administrator") {
+        await ctx.api.sendMessage(chat.id, GROUP_HELP_TEXT, { parse_mode: "HTML" })
+      }
+    } catch (error) {
+      console.error(`❌ Error handling membership change in ${chat.id}:`, error)
+    }
+  })
+
+  // A group was upgraded to a supergroup and got a new id
+  bot.on("message:migrate_to_chat_id", async (ctx) => {
+    await db.migrateChat(ctx.chat.id, ctx.message.migrate_to_chat_id)
+  })
+
+  sharedChats.command(["start", "help"], async (ctx) => {
+    await ctx.reply(GROUP_HELP_TEXT, { parse_mode: "HTML" })
+  })
+
+  sharedChats.command(["add", "remove"], async (ctx) => {
+    const chatId = ctx.chat.id
+    const command = ctx.msg.text.startsWith("/add") ? "add" : "remove"
+    console.log(`📥 /${command} command in ${ctx.chat.type} ${chatId}`)
+
+    try {
+      if (!(await canManageChat(ctx))) {
+        await ctx.reply("🔒 Only chat administrators can add or remove models.")
+        return
+      }
+
+      const items = splitModelList(ctx.match)
+      if (items.length === 0 || items.length > MAX_BULK_ITEMS) {
+        await ctx.reply(`Usage: /${command} <username or link> ... (up to ${MAX_BULK_ITEMS} at once)`)
+        return
+      }
+
+      const results = command === "add" ? await addModels(chatId, ctx.match) : await removeModels(chatId, ctx.match)
+      await ctx.reply(formatBulkReport(results), { parse_mode: "HTML" })
+      console.log(`✅ Chat ${chatId} ran /${command} for ${results.length} models`)
+    } catch (error) {
+      console.error(`❌ Error in /${command} handler:`, error)
+      await ctx.reply("❌ An error occurred. Please try again.")
+    }
+  })
+
+  sharedChats.command("list", async (ctx) => {
+    try {
+      const list = await buildSubscriptionList(ctx.chat.id, 0)
+      if (!list) {
+        await ctx.reply("This chat doesn't follow any models yet.\n\nAdministrators can use /add <username> to get started!")
+        return
+      }
+
+      await ctx.reply(list.text, {
+        parse_mode: "HTML",
+        reply_markup: list.keyboard,
+      })
+    } catch (error) {
+      console.error(`❌ Error in /list handler:`, error)
+      await ctx.reply("❌ An error occurred. Please try again.")
+    }
+  })
+
   // Handle button presses
-  bot.on("message:text", async (ctx) => {
+  privateChats.on("message:text", async (ctx) => {
     const text = ctx.message.text
     const userId = ctx.from.id
 
@@ -119,7 +978,7 @@ export function registerMessageHandlers(bot: Bot) {
     }
 
     // Priority system: Cancel state if user clicks main buttons
-    const mainCommands = ["➕ Add Model", "➖ Remove Model", "📋 My List", "👑 Admin Panel", "🔙 Back to Main", "❌ Cancel"]
+    const mainCommands = ["➕ Add Model", "➖ Remove Model", "📋 My List", "⚙️ Settings", "👑 Admin Panel", "🔙 Back to Main", "❌ Cancel"]
     if (mainCommands.includes(text)) {
       await db.clearUserState(userId)
       console.log(`🔄 Cleared state for user ${userId} due to main command: ${text}`)
@@ -133,32 +992,128 @@ export function registerMessageHandlers(bot: Bot) {
 
       switch (userState.action) {
         case "waiting_for_model_to_add":
-          const modelToAdd = sanitizeModelName(text)
-          if (!modelToAdd) {
-            await ctx.reply("❌ Invalid model name. Please try again or use the menu.")
+        case "waiting_for_model_to_remove": {
+          const adding = userState.action === "waiting_for_model_to_add"
+          if (splitModelList(text).length > MAX_BULK_ITEMS) {
+            await ctx.reply(`❌ That's more than ${MAX_BULK_ITEMS} names. Please send them in smaller batches.`)
+            return
+          }
+
+          const results = adding ? await addModels(userId, text) : await removeModels(userId, text)
+          await ctx.reply(formatBulkReport(results), { parse_mode: "HTML" })
+
+          // Keep the state when nothing worked, so the user can send the names again
+          const failed = results.every((r) => r.outcome === "invalid" || r.outcome === "not_found")
+          if (!failed) await db.clearUserState(userId)
+          console.log(`✅ User ${userId} ${adding ? "added" : "removed"} ${results.length} models`)
+          break
+        }
+
+        case "waiting_for_tags": {
+          const modelName = userState.data.model as string
+          if (!(await db.getUserSubscriptions(userId)).includes(modelName)) {
+            await ctx.reply(`❌ You're no longer subscribed to ${escapeHTML(displayModelName(modelName))}.`)
             await db.clearUserState(userId)
+            break
+          }
+
+          const input = text.trim() === "-" ? [] : splitModelList(text)
+          const tags = input.map(normalizeTag)
+          if (tags.some((tag) => tag === null)) {
+            await ctx.reply("❌ Tags can only use letters, digits and dashes, up to 20 characters each. Please try again.")
             return
           }
-          await db.addUserSubscription(userId, modelToAdd)
-          await ctx.reply(`✅ Subscribed! You'll receive notifications for <code>${escapeHTML(modelToAdd)}</code>.`, {
-            parse_mode: "HTML",
-          })
+          const unique = [...new Set(tags as string[])]
+          if (unique.length > MAX_TAGS_PER_SUBSCRIPTION) {
+            await ctx.reply(`❌ Up to ${MAX_TAGS_PER_SUBSCRIPTION} tags per model, please.`)
+            return
+          }
+
+          await db.setSubscriptionTags(userId, modelName, unique)
+          await ctx.reply(
+            unique.length > 0
+              ? `🏷 ${escapeHTML(displayModelName(modelName))} tagged ${unique.map((tag) => `#${tag}`).join(" ")}.`
+              : `🏷 Tags removed from ${escapeHTML(displayModelName(modelName))}.`,
+          )
+          await db.clearUserState(userId)
+          console.log(`🏷 User ${userId} tagged ${modelName}: ${unique.join(", ") || "none"}`)
+          break
+        }
+
+        case "waiting_for_pack_name": {
+          const name = text.trim().replace(/\s+/g, " ")
+          if (name.length === 0 || name.length > MAX_PACK_NAME_LENGTH) {
+            await ctx.reply(`❌ Please send a name of up to ${MAX_PACK_NAME_LENGTH} characters.`)
+            return
+          }
+
+          // The models are taken now, so a tag edited meanwhile is up to date
+          const tag = userState.data.tag as string
+          const tagsByModel = await db.getSubscriptionTagsByChat(userId)
+          const models = (await db.getUserSubscriptions(userId))
+            .filter((model) => !tag || tagsByModel.get(model)?.includes(tag))
+          if (models.length === 0) {
+            await ctx.reply(tag ? `❌ No models are tagged #${tag} anymore.` : "❌ Your list is empty.")
+            await db.clearUserState(userId)
+            break
+          }
+          if (models.length > MAX_PACK_MODELS) {
+            await ctx.reply(`❌ Packs can have up to ${MAX_PACK_MODELS} models. Tag some and publish the tag instead.`)
+            await db.clearUserState(userId)
+            break
+          }
+
+          const pack = await db.createPack(userId, name, models)
           await db.clearUserState(userId)
-          console.log(`✅ User ${userId} subscribed to ${modelToAdd}`)
+          await ctx.reply(
+            `📦 <b>${escapeHTML(name)}</b> published with ${models.length} models.\n\n` +
+              `Anyone who opens this link can subscribe to them:\n<code>${packLink(pack.id)}</code>\n\n` +
+              "See how many people imported it with /packs.",
+            { parse_mode: "HTML" },
+          )
+          console.log(`📦 User ${userId} published pack ${pack.id} with ${models.length} models`)
           break
+        }
 
-        case "waiting_for_model_to_remove":
-          const modelToRemove = sanitizeModelName(text)
-          if (!modelToRemove) {
-            await ctx.reply("❌ Invalid model name. Please try again or use the menu.")
+        case "waiting_for_quiet_hours": {
+          if (text.trim().toLowerCase() === "off") {
+            await db.updateUserSettings(userId, { quiet_hours: null })
+            await ctx.reply("🌙 Quiet hours turned off.")
             await db.clearUserState(userId)
+            break
+          }
+
+          const [startText, endText] = text.split(/\s*[-–]\s*/)
+          const start = parseTimeOfDay(startText ?? "")
+          const end = parseTimeOfDay(endText ?? "")
+          if (start === null || end === null || start === end) {
+            await ctx.reply("❌ Please send a range like <code>23:00-07:00</code>, or <code>off</code>.", { parse_mode: "HTML" })
             return
           }
-          await db.removeUserSubscription(userId, modelToRemove)
-          await ctx.reply(`🗑️ Unsubscribed from <code>${escapeHTML(modelToRemove)}</code>.`, { parse_mode: "HTML" })
+
+          const settings = await db.updateUserSettings(userId, { quiet_hours: { start, end } })
+          await ctx.reply(
+            `🌙 Quiet hours set to ${formatTimeOfDay(start)}–${formatTimeOfDay(end)} (${escapeHTML(settings.timezone)}).`,
+          )
           await db.clearUserState(userId)
-          console.log(`✅ User ${userId} unsubscribed from ${modelToRemove}`)
           break
+        }
+
+        case "waiting_for_timezone": {
+          const timezone = text.trim()
+          if (!isValidTimeZone(timezone)) {
+            await ctx.reply(
+              "❌ Unknown time zone. Please send a name like <code>Europe/Berlin</code> or <code>America/New_York</code>.",
+              { parse_mode: "HTML" },
+            )
+            return
+          }
+
+          await db.updateUserSettings(userId, { timezone })
+          await ctx.reply(`🌍 Time zone set to ${escapeHTML(timezone)}.`)
+          await db.clearUserState(userId)
+          break
+        }
 
         case "waiting_for_broadcast_message":
           if (!isAdmin(userId)) {
@@ -197,7 +1152,10 @@ export function registerMessageHandlers(bot: Bot) {
             action: "waiting_for_model_to_add",
             expires: Date.now() + (24 * 60 * 60 * 1000) // Will be updated by setUserState
           })
-          await ctx.reply("Please send me the username of the model you want to track:")
+          await ctx.reply(
+            "Please send me the username of the model you want to track.\n\n" +
+              "You can send several at once, separated by commas, spaces or new lines, and room links work too.",
+          )
           break
 
         case "➖ Remove Model":
@@ -206,32 +1164,35 @@ export function registerMessageHandlers(bot: Bot) {
             action: "waiting_for_model_to_remove",
             expires: Date.now() + (24 * 60 * 60 * 1000) // Will be updated by setUserState
           })
-          await ctx.reply("Please send me the username of the model you want to stop tracking:")
+          await ctx.reply(
+            "Please send me the username of the model you want to stop tracking.\n\n" +
+              "You can send several at once, separated by commas, spaces or new lines.",
+          )
           break
 
         case "📋 My List":
           console.log(`📋 My List button pressed by user ${userId}`)
-          const subs = await db.getUserSubscriptions(userId)
-          console.log(`📋 User ${userId} has ${subs.length} subscriptions`)
-
-          if (subs.length === 0) {
+          const list = await buildSubscriptionList(userId, 0, LIST_FOOTER)
+          if (!list) {
             await ctx.reply("You are not subscribed to any models yet.\n\nUse ➕ Add Model to get started!")
             return
           }
 
-          let listText = "<b>Your subscriptions:</b>\n\n"
-          const keyboard = new InlineKeyboard()
-
-          for (const model of subs) {
-            listText += `• <code>${escapeHTML(model)}</code>\n`
-            keyboard.text(`Share ${model}`, `share_${model}`).row()
-          }
+          await ctx.reply(list.text, {
+            parse_mode: "HTML",
+            reply_markup: list.keyboard,
+          })
+          break
 
-          await ctx.reply(listText, {
+        case "⚙️ Settings": {
+          console.log(`⚙️ Settings button pressed by user ${userId}`)
+          const settings = await db.getUserSettings(userId)
+          await ctx.reply(SETTINGS_TEXT, {
             parse_mode: "HTML",
-            reply_markup: keyboard,
+            reply_markup: buildSettingsKeyboard(settings),
           })
           break
+        }
 
         case "👑 Admin Panel":
           if (!isAdmin(userId)) {
@@ -258,12 +1219,26 @@ export function registerMessageHandlers(bot: Bot) {
             const totalUsers = (await db.getAllUserIds()).length
             const totalModels = (await db.getModelQueue()).length
             const cacheStats = db.getCacheStats()
+            const circuits = await db.listCircuitStatuses()
+            const healthLines = [...circuits].map(([name, status]) => escapeHTML(describeCircuit(name, status)))
+            const deadLetters = await db.countDeadLetters()
+            const quotaReport = await getQuotaReport()
+            const overLimit = quotaReport.filter(({ quota }) => quota.used > quota.limit).length
+            const quotaLines = quotaReport.slice(0, 10).map(({ chatId, quota }) =>
+              `${quota.used > quota.limit ? "🔴" : "🟡"} <code>${chatId}</code> ${escapeHTML(formatQuota(quota))}`
+            )
             
             await ctx.reply(
               `📊 <b>Bot Statistics</b>\n\n` +
               `👥 Total Users: ${totalUsers}\n` +
               `🎭 Tracked Models: ${totalModels}\n` +
-              `💾 Cache Size: ${cacheStats.size} items`,
+              `💾 Cache Size: ${cacheStats.size} items\n` +
+              `📮 Undeliverable Notifications (30d): ${deadLetters}\n\n` +
+              `🩺 <b>Upstream Health</b>\n` +
+              (healthLines.join("\n") || "No requests made yet") + "\n\n" +
+              `📏 <b>Subscription Quotas</b> (${quotaReport.length - overLimit} near, ${overLimit} over)\n` +
+              (quotaLines.join("\n") || "Everyone has room to spare") +
+              (quotaReport.length > quotaLines.length ? `\n…and ${quotaReport.length - quotaLines.length} more` : ""),
               { parse_mode: "HTML" }
             )
           } catch (error) {
@@ -295,12 +1270,265 @@ export function registerMessageHandlers(bot: Bot) {
     console.log(`📥 Callback query from user ${userId}: ${data}`)
 
     try {
+      // Buttons in groups and channels change the chat's subscriptions,
+      // which only its administrators may do
+      const chatId = ctx.chat?.id ?? userId
+      const chatActions = [
+        "snooze_",
+        "muteoff_",
+        "unsub_",
+        "subprefs_",
+        "subev_",
+        "subgr_",
+        "submute_",
+        "listrm_",
+        "tagmute_",
+        "tagdel_",
+        "taggr_",
+      ]
+      if (chatId !== userId && chatActions.some((prefix) => data.startsWith(prefix)) && !(await canManageChat(ctx))) {
+        await ctx.answerCallbackQuery("🔒 Only chat administrators can change this")
+        return
+      }
+
       if (data.startsWith("share_")) {
-        const modelName = data.replace("share_", "")
-        const shareLink = `https://t.me/${BOT_USERNAME}?start=${modelName}`
+        const modelName = await modelFromCallback(data.replace("share_", ""))
+        const name = escapeHTML(displayModelName(modelName))
+        const shareLink = `https://t.me/${BOT_USERNAME}?start=${toStartPayload(modelName)}`
+        await ctx.answerCallbackQuery()
+        await ctx.reply(
+          `🔗 Share link for <code>${name}</code>:\n\n<code>${shareLink}</code>\n\nAnyone who clicks this link will be automatically subscribed to ${name}!`,
+          { parse_mode: "HTML" },
+        )
+      } else if (data.startsWith("list_") || data.startsWith("listrm_")) {
+        // Page through the list, or remove a model and redraw the same page.
+        // Tags have no underscores, so the model is everything after it.
+        const [action, pageText, tag = "", ...rest] = data.split("_")
+        const page = parseInt(pageText, 10) || 0
+        if (action === "listrm") {
+          const modelName = await modelFromCallback(rest.join("_"))
+          await db.removeUserSubscription(chatId, modelName)
+          await ctx.answerCallbackQuery(`🗑️ Unsubscribed from ${displayModelName(modelName)}`)
+        } else {
+          await ctx.answerCallbackQuery()
+        }
+
+        const list = await buildSubscriptionList(chatId, page, ctx.chat?.type === "private" ? LIST_FOOTER : "", tag)
+        if (!list) {
+          await ctx.editMessageText("Your list is empty now.")
+          return
+        }
+        try {
+          await ctx.editMessageText(list.text, { parse_mode: "HTML", reply_markup: list.keyboard })
+        } catch (error) {
+          // Refreshing a list that hasn't changed isn't an error
+          if (!isMessageNotModified(error)) throw error
+        }
+      } else if (data.startsWith("snooze_")) {
+        const modelName = await modelFromCallback(data.replace("snooze_", ""))
+        await db.snoozeModel(chatId, modelName, SNOOZE_MS)
+        await ctx.answerCallbackQuery(`😴 No alerts for ${displayModelName(modelName)} for 24 hours`)
+      } else if (data.startsWith("muteoff_")) {
+        const modelName = await modelFromCallback(data.replace("muteoff_", ""))
+        const prefs = await db.getSubscriptionPrefs(chatId, modelName)
+        if (!prefs) {
+          await ctx.answerCallbackQuery(`You're not subscribed to ${displayModelName(modelName)}`)
+          return
+        }
+
+        const events = prefs.events ?? (await db.getUserSettings(chatId)).events
+        const muted = events.includes("offline")
+        await db.updateSubscriptionPrefs(chatId, modelName, {
+          events: muted ? events.filter((e) => e !== "offline") : [...events, "offline"],
+        })
+        await ctx.answerCallbackQuery(
+          muted
+            ? `🔕 Offline alerts for ${displayModelName(modelName)} muted`
+            : `🔔 Offline alerts for ${displayModelName(modelName)} back on`,
+        )
+      } else if (data.startsWith("subprefs_")) {
+        const modelName = await modelFromCallback(data.replace("subprefs_", ""))
+        const prefs = await db.getSubscriptionPrefs(chatId, modelName)
+        if (!prefs) {
+          await ctx.answerCallbackQuery(`You're not subscribed to ${displayModelName(modelName)}`)
+          return
+        }
+
+        const tags = await db.getSubscriptionTags(chatId, modelName)
+        await ctx.answerCallbackQuery()
+        await ctx.reply(buildSubscriptionText(modelName, prefs, tags), {
+          parse_mode: "HTML",
+          reply_markup: await buildSubscriptionKeyboard(modelName, prefs, ctx.chat?.type === "private" ? tags : null),
+        })
+      } else if (data.startsWith("subev_") || data.startsWith("subgr_") || data.startsWith("submute_")) {
+        const action = data.slice(0, data.indexOf("_"))
+        const modelName = await modelFromCallback(data.slice(action.length + 1))
+        const current = await db.getSubscriptionPrefs(chatId, modelName)
+        if (!current) {
+          await ctx.answerCallbackQuery(`You're not subscribed to ${displayModelName(modelName)}`)
+          return
+        }
+
+        let changes: Partial<db.SubscriptionPrefs>
+        if (action === "subev") {
+          const next = (findEventPreset(current.events) + 1) % SUBSCRIPTION_EVENT_PRESETS.length
+          changes = { events: SUBSCRIPTION_EVENT_PRESETS[next].events }
+        } else if (action === "subgr") {
+          changes = { grace_period_ms: nextGracePeriod(current.grace_period_ms) }
+        } else {
+          changes = { muted: !current.muted }
+        }
+
+        const prefs = await db.updateSubscriptionPrefs(chatId, modelName, changes)
+        if (!prefs) {
+          await ctx.answerCallbackQuery(`You're not subscribed to ${displayModelName(modelName)}`)
+          return
+        }
+
+        const tags = await db.getSubscriptionTags(chatId, modelName)
+        await ctx.answerCallbackQuery("✅ Saved")
+        await ctx.editMessageText(buildSubscriptionText(modelName, prefs, tags), {
+          parse_mode: "HTML",
+          reply_markup: await buildSubscriptionKeyboard(modelName, prefs, ctx.chat?.type === "private" ? tags : null),
+        })
+      } else if (data.startsWith("subtags_")) {
+        const modelName = await modelFromCallback(data.replace("subtags_", ""))
+        const tags = await db.getSubscriptionTags(chatId, modelName)
+        await db.setUserState(userId, {
+          action: "waiting_for_tags",
+          data: { model: modelName },
+          expires: Date.now() + (24 * 60 * 60 * 1000), // Will be updated by setUserState
+        })
         await ctx.answerCallbackQuery()
         await ctx.reply(
-          `🔗 Share link for <code>${escapeHTML(modelName)}</code>:\n\n<code>${shareLink}</code>\n\nAnyone who clicks this link will be automatically subscribed to ${escapeHTML(modelName)}!`,
+          `🏷 Send the tags for <code>${escapeHTML(displayModelName(modelName))}</code>, separated by commas ` +
+            `(e.g. <code>favorites, weekends</code>). Up to ${MAX_TAGS_PER_SUBSCRIPTION} tags of letters, digits ` +
+            "and dashes.\n\n" +
+            (tags.length > 0 ? `Current tags: ${tags.join(", ")}. Send <code>-</code> to remove them.` : "No tags yet."),
+          { parse_mode: "HTML" },
+        )
+      } else if (data.startsWith("tagset_")) {
+        const tag = data.replace("tagset_", "")
+        const [allSettings, tagsByModel] = await Promise.all([
+          db.getTagSettings(chatId),
+          db.getSubscriptionTagsByChat(chatId),
+        ])
+        const modelCount = [...tagsByModel.values()].filter((tags) => tags.includes(tag)).length
+        await ctx.answerCallbackQuery()
+        await ctx.editMessageText(buildTagSettingsText(tag, modelCount), {
+          parse_mode: "HTML",
+          reply_markup: buildTagSettingsKeyboard(tag, allSettings[tag] ?? db.DEFAULT_TAG_SETTINGS),
+        })
+      } else if (data.startsWith("tagmute_") || data.startsWith("tagdel_") || data.startsWith("taggr_")) {
+        const separator = data.indexOf("_")
+        const action = data.slice(0, separator)
+        const tag = data.slice(separator + 1)
+        const current = (await db.getTagSettings(chatId))[tag] ?? db.DEFAULT_TAG_SETTINGS
+
+        let changes: Partial<db.TagSettings>
+        if (action === "tagmute") {
+          changes = { muted: !current.muted }
+        } else if (action === "tagdel") {
+          // Cycles through "my settings" followed by every delivery mode
+          const modes = [null, ...Object.keys(DELIVERY_LABELS) as db.DeliveryMode[]]
+          changes = { delivery: modes[(modes.indexOf(current.delivery) + 1) % modes.length] }
+        } else {
+          changes = { grace_period_ms: nextGracePeriod(current.grace_period_ms) }
+        }
+
+        const settings = await db.updateTagSettings(chatId, tag, changes)
+        const tagsByModel = await db.getSubscriptionTagsByChat(chatId)
+        const modelCount = [...tagsByModel.values()].filter((tags) => tags.includes(tag)).length
+        await ctx.answerCallbackQuery("✅ Saved")
+        await ctx.editMessageText(buildTagSettingsText(tag, modelCount), {
+          parse_mode: "HTML",
+          reply_markup: buildTagSettingsKeyboard(tag, settings),
+        })
+      } else if (data.startsWith("unsub_")) {
+        const modelName = await modelFromCallback(data.replace("unsub_", ""))
+        const subscriptions = await db.getUserSubscriptions(chatId)
+        if (!subscriptions.includes(modelName)) {
+          await ctx.answerCallbackQuery(`You're not subscribed to ${displayModelName(modelName)}`)
+          return
+        }
+
+        await db.removeUserSubscription(chatId, modelName)
+        await ctx.answerCallbackQuery(`➖ Unsubscribed from ${displayModelName(modelName)}`)
+      } else if (data.startsWith("toggle_event_")) {
+        const event = data.replace("toggle_event_", "") as db.StatusEvent
+        if (!db.ALL_STATUS_EVENTS.includes(event)) {
+          await ctx.answerCallbackQuery()
+          return
+        }
+
+        const current = await db.getUserSettings(userId)
+        const enabled = current.events.includes(event)
+        const events = enabled ? current.events.filter((e) => e !== event) : [...current.events, event]
+        const settings = await db.updateUserSettings(userId, { events })
+
+        await ctx.answerCallbackQuery(enabled ? "🔕 Turned off" : "🔔 Turned on")
+        await ctx.editMessageText(SETTINGS_TEXT, {
+          parse_mode: "HTML",
+          reply_markup: buildSettingsKeyboard(settings),
+        })
+      } else if (data === "cycle_grace") {
+        const current = await db.getUserSettings(userId)
+        const currentMinutes = Math.round(current.grace_period_ms / 60000)
+        const nextIndex = (GRACE_OPTIONS_MINUTES.indexOf(currentMinutes) + 1) % GRACE_OPTIONS_MINUTES.length
+        const settings = await db.updateUserSettings(userId, { grace_period_ms: GRACE_OPTIONS_MINUTES[nextIndex] * 60000 })
+
+        await ctx.answerCallbackQuery(`⏱ Online alert delay: ${formatGrace(settings.grace_period_ms)}`)
+        await ctx.editMessageText(SETTINGS_TEXT, {
+          parse_mode: "HTML",
+          reply_markup: buildSettingsKeyboard(settings),
+        })
+      } else if (data === "toggle_live") {
+        const current = await db.getUserSettings(userId)
+        const settings = await db.updateUserSettings(userId, { live_message: !current.live_message })
+
+        await ctx.answerCallbackQuery(settings.live_message ? "🔄 Live message on" : "🔄 Live message off")
+        await ctx.editMessageText(SETTINGS_TEXT, {
+          parse_mode: "HTML",
+          reply_markup: buildSettingsKeyboard(settings),
+        })
+      } else if (data === "toggle_photo") {
+        const current = await db.getUserSettings(userId)
+        const settings = await db.updateUserSettings(userId, { photo_notifications: !current.photo_notifications })
+
+        await ctx.answerCallbackQuery(settings.photo_notifications ? "🖼 Room photos on" : "🖼 Room photos off")
+        await ctx.editMessageText(SETTINGS_TEXT, {
+          parse_mode: "HTML",
+          reply_markup: buildSettingsKeyboard(settings),
+        })
+      } else if (data === "cycle_delivery") {
+        const current = await db.getUserSettings(userId)
+        const modes = Object.keys(DELIVERY_LABELS) as db.DeliveryMode[]
+        const delivery = modes[(modes.indexOf(current.delivery) + 1) % modes.length]
+        const settings = await db.updateUserSettings(userId, { delivery })
+
+        await ctx.answerCallbackQuery(`📰 Delivery: ${DELIVERY_LABELS[delivery]}`)
+        await ctx.editMessageText(SETTINGS_TEXT, {
+          parse_mode: "HTML",
+          reply_markup: buildSettingsKeyboard(settings),
+        })
+      } else if (data === "set_quiet_hours") {
+        await db.setUserState(userId, {
+          action: "waiting_for_quiet_hours",
+          expires: Date.now() + (24 * 60 * 60 * 1000) // Will be updated by setUserState
+        })
+        await ctx.answerCallbackQuery()
+        await ctx.reply(
+          "🌙 Send your quiet hours as a range in your local time, e.g. <code>23:00-07:00</code>.\n\nSend <code>off</code> to turn them off.",
+          { parse_mode: "HTML" },
+        )
+      } else if (data === "set_timezone") {
+        await db.setUserState(userId, {
+          action: "waiting_for_timezone",
+          expires: Date.now() + (24 * 60 * 60 * 1000) // Will be updated by setUserState
+        })
+        await ctx.answerCallbackQuery()
+        await ctx.reply(
+          "🌍 Send your time zone, e.g. <code>Europe/Berlin</code> or <code>America/New_York</code>.",
           { parse_mode: "HTML" },
         )
       } else if (data === "confirm_broadcast") {
@@ -336,6 +1564,140 @@ export function registerMessageHandlers(bot: Bot) {
           await ctx.editMessageText(`✅ Broadcast completed!\n\nSent to ${successCount}/${allUsers.length} users.`)
           await db.clearUserState(userId)
         }
+      } else if (data === "confirm_import") {
+        const userState = await db.getUserState(userId)
+        if (userState?.action !== "confirming_import" || !Array.isArray(userState.data)) {
+          await ctx.answerCallbackQuery("❌ This import has expired, please send the file again")
+          return
+        }
+
+        const entries = userState.data as ExportedSubscription[]
+        await ctx.answerCallbackQuery("📥 Importing...")
+        await db.addUser(userId)
+        const { limit } = await getQuota(userId)
+        const deadline = Date.now() + LOOKUP_BUDGET_MS
+        let skipped = 0
+        let missing = 0
+        for (const entry of entries) {
+          if ((await lookupModel(entry.model, Math.max(deadline - Date.now(), 0))).status === "not_found") {
+            missing++
+            continue
+          }
+          if (!(await db.addUserSubscription(userId, entry.model, limit)).ok) {
+            skipped++
+            continue
+          }
+          if (entry.prefs) {
+            const { events, grace_period_ms, muted } = entry.prefs
+            await db.updateSubscriptionPrefs(userId, entry.model, { events, grace_period_ms, muted })
+          }
+        }
+
+        const imported = entries.length - skipped - missing
+        await db.clearUserState(userId)
+        await ctx.editMessageText(
+          `✅ Imported ${imported} subscriptions. See them under 📋 My List.` +
+            (skipped > 0 ? `\n\n🚫 ${skipped} didn't fit on your list and were skipped.` : "") +
+            (missing > 0 ? `\n\n🔍 ${missing} don't exist anymore and were skipped.` : ""),
+        )
+        console.log(`✅ User ${userId} imported ${imported} subscriptions, ${skipped} over the limit, ${missing} missing`)
+      } else if (data.startsWith("packnew_")) {
+        const tag = data.replace("packnew_", "")
+        if ((await db.getUserPacks(userId)).length >= MAX_PACKS_PER_USER) {
+          await ctx.answerCallbackQuery(`You can have up to ${MAX_PACKS_PER_USER} packs`)
+          return
+        }
+
+        await db.setUserState(userId, {
+          action: "waiting_for_pack_name",
+          data: { tag },
+          expires: Date.now() + (24 * 60 * 60 * 1000), // Will be updated by setUserState
+        })
+        await ctx.answerCallbackQuery()
+        await ctx.reply(
+          `📦 What should the pack of ${tag ? `your #${tag} models` : "your list"} be called? ` +
+            "Others see the name when they open the link.",
+        )
+      } else if (data.startsWith("packdel_")) {
+        const deleted = await db.deletePack(userId, data.replace("packdel_", ""))
+        await ctx.answerCallbackQuery(deleted ? "🗑️ Pack deleted, its link no longer works" : "That pack is already gone")
+        const overview = await buildPacksOverview(userId)
+        await ctx.editMessageText(overview.text, { parse_mode: "HTML", reply_markup: overview.keyboard })
+      } else if (data.startsWith("packall_")) {
+        const pack = await db.getPack(data.replace("packall_", ""))
+        if (!pack) {
+          await ctx.answerCallbackQuery("📦 That pack doesn't exist anymore")
+          return
+        }
+
+        await ctx.answerCallbackQuery("📥 Subscribing...")
+        const result = await subscribeToPack(userId, pack, pack.models)
+        await ctx.editMessageText(formatPackResult(pack, result), { parse_mode: "HTML" })
+        console.log(`📦 User ${userId} subscribed to ${result.added} models from pack ${pack.id}`)
+      } else if (data.startsWith("packpick_")) {
+        const pack = await db.getPack(data.replace("packpick_", ""))
+        if (!pack) {
+          await ctx.answerCallbackQuery("📦 That pack doesn't exist anymore")
+          return
+        }
+
+        // Start with the models the user doesn't follow yet
+        const subscriptions = await db.getUserSubscriptions(userId)
+        const selected = pack.models.filter((model) => !subscriptions.includes(model))
+        await db.setUserState(userId, {
+          action: "choosing_pack_models",
+          data: { id: pack.id, selected },
+          expires: Date.now() + (24 * 60 * 60 * 1000), // Will be updated by setUserState
+        })
+        const picker = buildPackPicker(pack, selected, 0)
+        await ctx.answerCallbackQuery()
+        await ctx.editMessageText(picker.text, { parse_mode: "HTML", reply_markup: picker.keyboard })
+      } else if (
+        data.startsWith("packtog_") || data.startsWith("packpg_") || data === "packadd" || data === "packcancel"
+      ) {
+        const userState = await db.getUserState(userId)
+        const pack = userState?.action === "choosing_pack_models" ? await db.getPack(userState.data.id) : null
+        if (!pack) {
+          await db.clearUserState(userId)
+          await ctx.answerCallbackQuery("This selection has expired")
+          await ctx.editMessageText("📦 This selection has expired. Open the pack link again.")
+          return
+        }
+
+        let selected = userState!.data.selected as string[]
+        if (data === "packcancel") {
+          await db.clearUserState(userId)
+          await ctx.answerCallbackQuery("❌ Cancelled")
+          await ctx.editMessageText("❌ Nothing added.")
+        } else if (data === "packadd") {
+          if (selected.length === 0) {
+            await ctx.answerCallbackQuery("Tap some models first")
+            return
+          }
+
+          await db.clearUserState(userId)
+          await ctx.answerCallbackQuery("📥 Subscribing...")
+          const result = await subscribeToPack(userId, pack, selected)
+          await ctx.editMessageText(formatPackResult(pack, result), { parse_mode: "HTML" })
+          console.log(`📦 User ${userId} subscribed to ${result.added} models from pack ${pack.id}`)
+        } else {
+          const [action, pageText, indexText] = data.split("_")
+          if (action === "packtog") {
+            const model = pack.models[parseInt(indexText, 10)]
+            if (model) {
+              selected = selected.includes(model) ? selected.filter((m) => m !== model) : [...selected, model]
+              await db.setUserState(userId, { ...userState!, data: { id: pack.id, selected } })
+            }
+          }
+
+          const picker = buildPackPicker(pack, selected, parseInt(pageText, 10) || 0)
+          await ctx.answerCallbackQuery()
+          await ctx.editMessageText(picker.text, { parse_mode: "HTML", reply_markup: picker.keyboard })
+        }
+      } else if (data === "cancel_import") {
+        await db.clearUserState(userId)
+        await ctx.answerCallbackQuery("❌ Cancelled")
+        await ctx.editMessageText("❌ Import cancelled.")
       } else if (data === "cancel_broadcast") {
         if (!isAdmin(userId)) {
           await ctx.answerCallbackQuery("❌ Access denied")
@@ -354,3 +1716,98 @@ export function registerMessageHandlers(bot: Bot) {
 
   console.log("✅ Message handlers registered successfully")
 }
+
+// Each user may look up a few models in quick succession, then one a second
+const INLINE_RATE_LIMIT: RateLimit = { capacity: 5, refillPerSecond: 1 }
+
+// Inline queries have to be answered within a few seconds, so a live lookup
+// never waits long for the upstream rate limit. A busy upstream answers
+// "unknown", which isn't cached, and the next keystroke tries again.
+const INLINE_LOOKUP_WAIT_MS = 300
+
+// Builds the inline mode result for a model lookup
+function buildInlineResult(modelKey: string, lookup: StatusLookup) {
+  const name = displayModelName(modelKey)
+  const safeName = escapeHTML(name)
+  const roomUrl = roomUrlFor(modelKey)
+  const link = roomUrl ? `<a href="${roomUrl}">${safeName}</a>` : safeName
+  const now = Date.now()
+
+  let title: string
+  let description: string
+  let thumbnail: string | null = null
+  if (lookup.status === "not_found") {
+    title = `❓ ${name} doesn't exist`
+    description = "Check the spelling"
+  } else if (lookup.status === "unknown") {
+    title = `⚠️ Couldn't check ${name} right now`
+    description = "Try again in a moment"
+  } else {
+    const state = lookup.status === "tracked" ? lookup.stored.status : toRoomState(lookup.snapshot) ?? "offline"
+    const snapshot = lookup.status === "tracked" ? lookup.stored.snapshot : lookup.snapshot
+    thumbnail = state === "offline" ? null : snapshot?.image_url ?? null
+
+    if (state === "offline") {
+      title = `⚫ ${name} is offline`
+      description = "Not streaming right now"
+    } else {
+      title = state === "public" ? `${STATE_ICONS[state]} ${name} is online` : `${STATE_ICONS[state]} ${name} is online (${state})`
+      const details: string[] = []
+      if (lookup.status === "tracked" && lookup.stored.online_since) {
+        details.push(`for ${formatDuration(now - lookup.stored.online_since)}`)
+      }
+      if (typeof snapshot?.num_viewers === "number") details.push(`${snapshot.num_viewers} viewers`)
+      description = details.join(", ") || "Streaming now"
+    }
+  }
+
+  const keyboard = new InlineKeyboard()
+  if (lookup.status !== "not_found") {
+    keyboard.url("➕ Subscribe", `https://t.me/${BOT_USERNAME}?start=${toStartPayload(modelKey)}`)
+    if (roomUrl) keyboard.url("▶️ Open room", roomUrl)
+  }
+
+  return {
+    type: "article" as const,
+    id: modelKey.slice(0, 64),
+    title,
+    description,
+    ...(thumbnail ? { thumbnail_url: thumbnail } : {}),
+    input_message_content: {
+      message_text: `${escapeHTML(title).replace(safeName, () => link)}\n${escapeHTML(description)}`,
+      parse_mode: "HTML" as const,
+    },
+    reply_markup: keyboard,
+  }
+}
+
+// Inline mode: "@bot modelname" in any chat shows the model's status with
+// a button that subscribes through the /start deep link
+export function registerInlineHandlers(bot: Bot) {
+  bot.on("inline_query", async (ctx) => {
+    const query = ctx.inlineQuery.query.trim()
+    const modelKey = query ? resolveModelKey(query) : null
+    if (!modelKey) {
+      await ctx.answerInlineQuery([], { cache_time: 0 })
+      return
+    }
+
+    try {
+      // Skip the lookup while someone types faster than the limit allows;
+      // the next keystroke sends a new query anyway
+      if (!(await acquireToken(`inline:${ctx.from.id}`, INLINE_RATE_LIMIT, 0))) {
+        await ctx.answerInlineQuery([], { cache_time: 0 })
+        return
+      }
+
+      const lookup = await lookupStatus(modelKey, INLINE_LOOKUP_WAIT_MS)
+      await ctx.answerInlineQuery([buildInlineResult(modelKey, lookup)], {
+        cache_time: lookup.status === "unknown" ? 0 : 30,
+      })
+    } catch (error) {
+      console.error(`❌ Error answering inline query "${query}":`, error)
+    }
+  })
+
+  console.log("✅ Inline handlers registered successfully")
+}
@@ -0,0 +1,94 @@
+// circuit-breaker.test.ts
+//
+// Walks the circuit breaker through its closed → open → half-open states
+// against an in-memory KV database. Run with:
+//
+//   deno test --unstable-kv --allow-env circuit-breaker.test.ts
+
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts"
+
+// The database is opened when it's first imported, so this has to come first
+Deno.env.set("KV_PATH", ":memory:")
+const db = await import("./database.ts")
+const { isRequestAllowed, onCircuitTransition, recordFailure, recordSuccess } = await import("./circuit-breaker.ts")
+
+const transitions: string[] = []
+onCircuitTransition((name, previous, current) => {
+  transitions.push(`${name}: ${previous.state} → ${current.state}`)
+})
+
+async function fail(name: string, times: number): Promise<void> {
+  for (let i = 0; i < times; i++) await recordFailure(name, "HTTP 503")
+}
+
+async function succeed(name: string, times: number): Promise<void> {
+  for (let i = 0; i < times; i++) await recordSuccess(name)
+}
+
+// Pretend the circuit opened long enough ago for the cooldown to be over
+async function expireCooldown(name: string): Promise<void> {
+  await db.updateCircuitStatus(name, (status) => ({ ...status, opened_at: Date.now() - 10 * 60 * 1000 }))
+}
+
+const testOptions = { sanitizeOps: false, sanitizeResources: false }
+
+Deno.test("a new circuit is closed", testOptions, async () => {
+  assertEquals((await db.getCircuitStatus("fresh")).state, "closed")
+  assertEquals(await isRequestAllowed("fresh"), true)
+})
+
+Deno.test("the circuit stays closed below the minimum number of requests", testOptions, async () => {
+  await fail("few", 9)
+  assertEquals((await db.getCircuitStatus("few")).state, "closed")
+  assertEquals(await isRequestAllowed("few"), true)
+})
+
+Deno.test("the circuit stays closed while most requests succeed", testOptions, async () => {
+  await succeed("healthy", 6)
+  await fail("healthy", 5)
+  assertEquals((await db.getCircuitStatus("healthy")).state, "closed")
+})
+
+Deno.test("a high failure rate opens the circuit", testOptions, async () => {
+  await succeed("failing", 5)
+  await fail("failing", 5)
+
+  const status = await db.getCircuitStatus("failing")
+  assertEquals(status.state, "open")
+  assertEquals(status.last_error, "HTTP 503")
+  assertEquals(await isRequestAllowed("failing"), false)
+  assertEquals(transitions.includes("failing: closed → open"), true)
+})
+
+Deno.test("after the cooldown, successful probes close the circuit", testOptions, async () => {
+  await fail("recovering", 10)
+  await expireCooldown("recovering")
+
+  assertEquals(await isRequestAllowed("recovering"), true)
+  assertEquals((await db.getCircuitStatus("recovering")).state, "half_open")
+
+  await succeed("recovering", 2)
+  assertEquals((await db.getCircuitStatus("recovering")).state, "half_open")
+  await succeed("recovering", 1)
+
+  const status = await db.getCircuitStatus("recovering")
+  assertEquals(status.state, "closed")
+  assertEquals(status.failures, 0)
+  assertEquals(transitions.filter((t) => t.startsWith("recovering:")), [
+    "recovering: closed → open",
+    "recovering: open → half_open",
+    "recovering: half_open → closed",
+  ])
+})
+
+Deno.test("a failed probe reopens the circuit", testOptions, async () => {
+  await fail("relapsing", 10)
+  await expireCooldown("relapsing")
+  assertEquals(await isRequestAllowed("relapsing"), true)
+
+  await succeed("relapsing", 1)
+  await fail("relapsing", 1)
+
+  assertEquals((await db.getCircuitStatus("relapsing")).state, "open")
+  assertEquals(await isRequestAllowed("relapsing"), false)
+})
@@ -0,0 +1,124 @@
+// circuit-breaker.ts
+//
+// This module implements a circuit breaker around upstream status requests.
+// Its state lives in Deno KV so every isolate sees the same picture: once the
+// upstream starts failing, all isolates stop calling it until a cooldown has
+// passed, then a few probe requests decide whether it has recovered.
+
+import * as db from "./database.ts"
+
+export type CircuitState = "closed" | "open" | "half_open"
+
+const WINDOW_MS = 2 * 60 * 1000 // Failure rate is measured over 2-minute windows
+const MIN_REQUESTS = 10 // Don't judge the upstream on fewer requests than this
+const FAILURE_RATE_THRESHOLD = 0.5
+const OPEN_DURATION_MS = 5 * 60 * 1000 // Cooldown before probing again
+const HALF_OPEN_SUCCESSES = 3 // Consecutive successful probes needed to close
+
+type TransitionListener = (name: string, previous: db.CircuitStatus, current: db.CircuitStatus) => void | Promise<void>
+
+const listeners: TransitionListener[] = []
+
+/**
+ * Registers a callback for state changes. Only the isolate that performs a
+ * transition calls its listeners, so each change is reported once.
+ */
+export function onCircuitTransition(listener: TransitionListener): void {
+  listeners.push(listener)
+}
+
+async function update(name: string, mutate: (status: db.CircuitStatus, now: number) => db.CircuitStatus): Promise<void> {
+  const result = await db.updateCircuitStatus(name, (status) => mutate(status, Date.now()))
+  if (!result || result.previous.state === result.current.state) return
+
+  console.log(`🔌 Circuit ${name}: ${result.previous.state} → ${result.current.state}`)
+  for (const listener of listeners) {
+    try {
+      await listener(name, result.previous, result.current)
+    } catch (error) {
+      console.error(`Circuit listener failed for ${name}:`, error)
+    }
+  }
+}
+
+function enter(status: db.CircuitStatus, state: CircuitState, now: number): db.CircuitStatus {
+  return {
+    ...status,
+    state,
+    changed_at: now,
+    opened_at: state === "open" ? now : status.opened_at,
+    window_start: now,
+    successes: 0,
+    failures: 0,
+    probe_successes: 0,
+  }
+}
+
+/**
+ * Returns true if a request to the upstream may be made. Moves an open
+ * circuit to half-open once its cooldown has passed.
+ */
+export async function isRequestAllowed(name: string): Promise<boolean> {
+  const status = await db.getCircuitStatus(name)
+  if (status.state !== "open") return true
+  if (Date.now() - (status.opened_at ?? 0) < OPEN_DURATION_MS) return false
+
+  await update(name, (current, now) => current.state === "open" ? enter(current, "half_open", now) : current)
+  return true
+}
+
+export async function recordSuccess(name: string): Promise<void> {
+  await update(name, (status, now) => {
+    if (status.state === "half_open") {
+      const probeSuccesses = status.probe_successes + 1
+      if (probeSuccesses >= HALF_OPEN_SUCCESSES) return enter(status, "closed", now)
+      return { ...status, probe_successes: probeSuccesses }
+    }
+
+    const fresh = now - status.window_start > WINDOW_MS
+    return {
+      ...status,
+      window_start: fresh ? now : status.window_start,
+      successes: (fresh ? 0 : status.successes) + 1,
+      failures: fresh ? 0 : status.failures,
+    }
+  })
+}
+
+export async function recordFailure(name: string, reason: string | null): Promise<void> {
+  await update(name, (status, now) => {
+    const withError = { ...status, last_error: reason }
+
+    // A failed probe sends the circuit straight back to open
+    if (status.state === "half_open") return enter(withError, "open", now)
+    if (status.state === "open") return withError
+
+    const fresh = now - status.window_start > WINDOW_MS
+    const failures = (fresh ? 0 : status.failures) + 1
+    const successes = fresh ? 0 : status.successes
+    const total = failures + successes
+
+    if (total >= MIN_REQUESTS && failures / total >= FAILURE_RATE_THRESHOLD) {
+      return enter(withError, "open", now)
+    }
+    return { ...withError, window_start: fresh ? now : status.window_start, failures, successes }
+  })
+}
+
+/**
+ * Formats a circuit's state for the admin stats panel.
+ */
+export function describeCircuit(name: string, status: db.CircuitStatus): string {
+  const since = new Date(status.changed_at).toISOString().slice(11, 16)
+  switch (status.state) {
+    case "open":
+      return `⛔ ${name}: DOWN since ${since} UTC (${status.last_error ?? "unknown error"})`
+    case "half_open":
+      return `🟡 ${name}: recovering, probing since ${since} UTC`
+    default: {
+      const total = status.successes + status.failures
+      const rate = total > 0 ? Math.round((status.failures / total) * 100) : 0
+      return `✅ ${name}: healthy (${rate}% failures in current window)`
+    }
+  }
+}
@@ -5,8 +5,12 @@
 // without needing to know the underlying key structure.
 
 import { sanitizeModelName, sleep } from "./utils.ts"
+import { DEFAULT_PROVIDER_ID, toModelKey, type RoomSnapshot, type RoomState } from "./status-provider.ts"
+import type { CircuitState } from "./circuit-breaker.ts"
+import type { InlineKeyboardMarkup } from "https://deno.land/x/grammy@v1.24.0/types.ts"
 
-const kv = await Deno.openKv()
+// KV_PATH points tests at a throwaway database, e.g. ":memory:"
+const kv = await Deno.openKv(Deno.env.get("KV_PATH"))
 
 // Simple in-memory cache for model statuses
 class ModelStatusCache {
@@ -49,10 +53,202 @@ class ModelStatusCache {
 const statusCache = new ModelStatusCache()
 
 export interface ModelStatus {
-  status: "online" | "offline"
+  status: RoomState
   online_since: number | null
-  notified_users: number[] // Track who has been notified for this session
+  notified_users: number[] // Users whose grace period has passed this session (notified or opted out)
   last_notification_time: number | null // For debouncing
+  snapshot?: RoomSnapshot | null // Latest room data; missing on records written before snapshots existed
+  offline_since?: number | null // First offline check of a gap that isn't confirmed yet
+  offline_checks?: number // Consecutive offline checks in that gap
+  reconnects?: number // Short gaps merged into this session
+}
+
+/**
+ * A transition users can be notified about. "online" and "offline" open and
+ * close a session; the others are show changes while the model stays online,
+ * with "public" meaning a private, group, away or hidden show has ended.
+ */
+export type StatusEvent = "online" | "offline" | "public" | "private" | "group" | "away" | "hidden"
+
+export const ALL_STATUS_EVENTS: StatusEvent[] = ["online", "offline", "public", "private", "group", "away", "hidden"]
+
+// Everything a user can be messaged about, for deduplication
+export type NotificationType = StatusEvent | "not_found"
+
+export interface QuietHours {
+  start: number // Minutes since local midnight
+  end: number
+}
+
+export type DeliveryMode = "realtime" | "daily" | "weekly"
+
+export interface UserSettings {
+  delivery: DeliveryMode // Real-time messages, or a periodic digest instead
+  events: StatusEvent[] // Transitions the user wants messages for
+  grace_period_ms: number // How long a model must be online before the ONLINE message; 0 = instant
+  timezone: string // IANA time zone, used for quiet hours
+  quiet_hours: QuietHours | null // Notifications in this window are held back
+  live_message: boolean // One ONLINE message edited in place instead of separate messages
+  photo_notifications: boolean // ONLINE messages as a photo of the room
+}
+
+export const DEFAULT_USER_SETTINGS: UserSettings = {
+  delivery: "realtime",
+  events: ["online", "offline"],
+  grace_period_ms: 2 * 60 * 1000,
+  timezone: "UTC",
+  quiet_hours: null,
+  live_message: false,
+  photo_notifications: false,
+}
+
+// The live-updating message a user got for a model's current session
+export interface LiveMessage {
+  message_id: number
+  session_start: number
+  text: string // Last text sent, to skip edits that change nothing
+}
+
+// A finished streaming session, kept for digests
+export interface SessionRecord {
+  started_at: number
+  ended_at: number
+}
+
+// A notification held back during quiet hours
+export interface PendingNotification {
+  model: string
+  type: NotificationType
+  message: string // The HTML message that would have been sent
+  duration_ms: number | null // Session length, for offline notifications
+  created_at: number
+}
+
+// Everything that goes out through the outbox: notifications about a model,
+// edits of live messages, and the bot's summaries, digests and admin alerts
+export type OutboxMessageType = NotificationType | "live_update" | "quiet_hours_summary" | "digest" | "admin_alert"
+
+// A message waiting in the outbox queue
+export interface OutboxMessage {
+  id: string
+  chat_id: number
+  model: string | null // Null for messages that aren't about one model
+  type: OutboxMessageType
+  text: string
+  reply_markup?: InlineKeyboardMarkup
+  disable_link_preview?: boolean
+  live_session_start?: number // Set when the message starts a live-updating message
+  photo?: { url: string; session_start: number } // Sent as a photo with the text as caption
+  edit?: { message_id: number; finish: boolean } // Edits a live message instead of sending a new one
+  continued?: string[] // Further parts of a message too long for one, queued in turn once this one is sent
+  attempts: number
+  created_at: number
+}
+
+export type DeliveryState = "queued" | "sent" | "retrying" | "dead"
+
+export interface DeliveryStatus {
+  state: DeliveryState
+  chat_id: number
+  model: string | null
+  type: OutboxMessageType
+  attempts: number
+  updated_at: number
+  message_id: number | null
+  error: string | null
+}
+
+export interface ModelSchedule {
+  next_check_at: number
+  last_checked_at: number
+  last_online_at: number | null
+  online_hours: number[] // Online observations per UTC hour of day
+}
+
+export interface CircuitStatus {
+  state: CircuitState
+  changed_at: number
+  opened_at: number | null
+  window_start: number
+  successes: number // Successes in the current window
+  failures: number // Failures in the current window
+  probe_successes: number // Consecutive successes while half-open
+  last_error: string | null
+}
+
+export interface TokenBucket {
+  tokens: number
+  updated_at: number
+  blocked_until: number // No tokens before this time (set from Retry-After)
+}
+
+export interface ModelLookup {
+  exists: boolean
+  checked_at: number
+}
+
+export interface NotFoundRecord {
+  since: number // First check that returned 404
+  flagged_at: number | null // When subscribers were told
+}
+
+// Per-subscription preferences, stored as the subscription record. Unset
+// fields fall back to the user's settings.
+export interface SubscriptionPrefs {
+  events: StatusEvent[] | null // Transitions wanted for this model
+  grace_period_ms: number | null // Online alert delay for this model
+  muted: boolean // Subscribed, but no messages at all
+  created_at: number
+}
+
+export function defaultSubscriptionPrefs(): SubscriptionPrefs {
+  return { events: null, grace_period_ms: null, muted: false, created_at: Date.now() }
+}
+
+// Settings shared by every subscription with a user-defined tag. Unset
+// fields fall back to the user's settings.
+export interface TagSettings {
+  muted: boolean
+  delivery: DeliveryMode | null
+  grace_period_ms: number | null
+}
+
+export const DEFAULT_TAG_SETTINGS: TagSettings = { muted: false, delivery: null, grace_period_ms: null }
+
+// What actually applies to one subscription
+export interface EffectivePrefs {
+  events: StatusEvent[]
+  grace_period_ms: number
+  muted: boolean
+  delivery: DeliveryMode
+}
+
+/**
+ * Combines the settings that apply to a subscription. The subscription's own
+ * preferences win, then its tags, then the user's settings. With several
+ * tags, any muted tag mutes, the shortest delay wins and the delivery of the
+ * first tag (alphabetically) that sets one is used.
+ */
+export function resolvePrefs(
+  settings: UserSettings,
+  prefs: SubscriptionPrefs | null,
+  tags: string[],
+  tagSettings: Record<string, TagSettings>,
+): EffectivePrefs {
+  const applied = [...tags].sort().map((tag) => tagSettings[tag]).filter((tag): tag is TagSettings => !!tag)
+  const tagGraces = applied.map((tag) => tag.grace_period_ms).filter((ms): ms is number => ms !== null)
+
+  return {
+    events: prefs?.events ?? settings.events,
+    grace_period_ms: prefs?.grace_period_ms ?? (tagGraces.length > 0 ? Math.min(...tagGraces) : settings.grace_period_ms),
+    muted: (prefs?.muted ?? false) || applied.some((tag) => tag.muted),
+    delivery: applied.find((tag) => tag.delivery !== null)?.delivery ?? settings.delivery,
+  }
+}
+
+// Whether a subscription should be told about an event
+export function wantsEvent(effective: EffectivePrefs, event: StatusEvent): boolean {
+  return !effective.muted && effective.events.includes(event)
 }
 
 export interface UserState {
@@ -61,25 +257,74 @@ export interface UserState {
   expires: number
 }
 
-export async function addUserSubscription(chatId: number, rawName: string): Promise<void> {
+export type SubscribeResult =
+  | { ok: true; added: boolean } // added is false if the chat was already subscribed
+  | { ok: false; reason: "invalid" | "over_limit" }
+
+// Number of subscriptions per chat, kept next to the subscription records so
+// the limit is checked in the same commit that adds one. Chats from before
+// the counter are counted once, the first time it's needed.
+async function getSubscriptionCountEntry(chatId: number): Promise<{ entry: Deno.KvEntryMaybe<number>; count: number }> {
+  const entry = await kv.get<number>(["subscription_counts", chatId])
+  const count = entry.value ?? (await getUserSubscriptions(chatId)).length
+  return { entry, count }
+}
+
+export async function getSubscriptionCount(chatId: number): Promise<number> {
+  return (await getSubscriptionCountEntry(chatId)).count
+}
+
+/**
+ * Subscribes a chat to a model, keeping the preferences of an existing
+ * subscription.
+ * @param limit Most subscriptions the chat may have; adding one more fails.
+ */
+export async function addUserSubscription(chatId: number, rawName: string, limit = Infinity): Promise<SubscribeResult> {
   const modelName = sanitizeModelName(rawName)
-  if (!modelName) return
+  if (!modelName) return { ok: false, reason: "invalid" }
 
   // First, ensure user exists
   await kv.set(["users", chatId], true)
 
-  // Add subscription with atomic operation
-  await kv.atomic()
-    .set(["subscriptions", chatId, modelName], true)
-    .commit()
+  // Add the subscription and count it in one commit, so concurrent adds
+  // can't go over the limit
+  const key = ["subscriptions", chatId, modelName]
+  let added = false
+  let success = false
+  let attempts = 0
+  const maxAttempts = 5
+
+  while (!success && attempts < maxAttempts) {
+    const existing = await kv.get(key)
+    if (existing.versionstamp !== null) break
+
+    const { entry, count } = await getSubscriptionCountEntry(chatId)
+    if (count >= limit) return { ok: false, reason: "over_limit" }
+
+    const commitResult = await kv.atomic()
+      .check(existing)
+      .check(entry)
+      .set(key, defaultSubscriptionPrefs())
+      .set(["subscription_counts", chatId], count + 1)
+      .commit()
+    success = added = commitResult.ok
+
+    attempts++
+    if (!success && attempts < maxAttempts) {
+      await sleep(Math.random() * 50)
+    }
+  }
+
+  if (!added && (await kv.get(key)).versionstamp === null) {
+    throw new Error(`Failed to subscribe ${chatId} to ${modelName} after ${maxAttempts} attempts`)
+  }
   
   // Add to model's subscriber array
   await addSubscriberToModel(modelName, chatId)
 
   // Add to queue atomically with retry logic
   let queueSuccess = false
-  let attempts = 0
-  const maxAttempts = 5
+  attempts = 0
 
   while (!queueSuccess && attempts < maxAttempts) {
     const queueKey = ["models_queue"]
@@ -105,16 +350,43 @@ export async function addUserSubscription(chatId: number, rawName: string): Prom
   if (!queueSuccess) {
     console.error(`Failed to add ${modelName} to queue after ${maxAttempts} attempts`)
   }
+  return { ok: true, added }
 }
 
 export async function removeUserSubscription(chatId: number, rawName: string): Promise<void> {
   const modelName = sanitizeModelName(rawName)
   if (!modelName) return
 
-  // Remove subscription atomically
-  await kv.atomic()
-    .delete(["subscriptions", chatId, modelName])
-    .commit()
+  // Remove subscription and its per-model preferences atomically, along
+  // with its place in the chat's count
+  const key = ["subscriptions", chatId, modelName]
+  const countKey = ["subscription_counts", chatId]
+  let success = false
+  let attempts = 0
+  const maxAttempts = 5
+
+  while (!success && attempts < maxAttempts) {
+    const [existing, countEntry] = await kv.getMany<[unknown, number]>([key, countKey])
+    const op = kv.atomic()
+      .check(existing)
+      .check(countEntry)
+      .delete(key)
+      .delete(["snoozes", chatId, modelName])
+      .delete(["subscription_tags", chatId, modelName])
+    if (existing.versionstamp !== null && countEntry.value !== null) {
+      op.set(countKey, Math.max(countEntry.value - 1, 0))
+    }
+    success = (await op.commit()).ok
+
+    attempts++
+    if (!success && attempts < maxAttempts) {
+      await sleep(Math.random() * 50)
+    }
+  }
+
+  if (!success) {
+    console.error(`Failed to remove subscription of ${chatId} to ${modelName} after ${maxAttempts} attempts`)
+  }
 
   // Remove from model's subscriber array (this handles queue cleanup too)
   await removeSubscriberFromModel(modelName, chatId)
@@ -122,12 +394,20 @@ export async function removeUserSubscription(chatId: number, rawName: string): P
 
 export async function getUserSubscriptions(chatId: number): Promise<string[]> {
   const result: string[] = []
-  for await (const entry of kv.list<boolean>({ prefix: ["subscriptions", chatId] })) {
+  for await (const entry of kv.list<SubscriptionPrefs>({ prefix: ["subscriptions", chatId] })) {
     result.push(entry.key[2] as string)
   }
   return result
 }
 
+export async function getUserSubscriptionsWithPrefs(chatId: number): Promise<[string, SubscriptionPrefs][]> {
+  const result: [string, SubscriptionPrefs][] = []
+  for await (const entry of kv.list<SubscriptionPrefs>({ prefix: ["subscriptions", chatId] })) {
+    result.push([entry.key[2] as string, entry.value])
+  }
+  return result
+}
+
 export async function getModelSubscribers(modelName: string): Promise<number[]> {
   const result = await kv.get<number[]>(["model_subscribers", modelName])
   
@@ -231,12 +511,41 @@ export async function getStoredModelStatus(modelName: string): Promise<ModelStat
   // Cache miss - fetch from database
   const result = await kv.get<ModelStatus>(["statuses", modelName])
   if (result.value) {
+    // Records written before multi-state tracking only knew "online"
+    if ((result.value.status as string) === "online") {
+      result.value.status = "public"
+    }
     statusCache.set(modelName, result.value)
   }
   
   return result.value
 }
 
+// Stored statuses of many models, from the cache or in chunks of ten
+export async function getStoredModelStatuses(modelNames: string[]): Promise<Map<string, ModelStatus>> {
+  const statuses = new Map<string, ModelStatus>()
+  const missing = modelNames.filter((name) => {
+    const cached = statusCache.get(name)
+    if (cached) statuses.set(name, cached)
+    return !cached
+  })
+
+  for (let i = 0; i < missing.length; i += 10) {
+    const chunk = missing.slice(i, i + 10)
+    const entries = await kv.getMany<ModelStatus[]>(chunk.map((name) => ["statuses", name]))
+    entries.forEach((entry, index) => {
+      if (!entry.value) return
+      if ((entry.value.status as string) === "online") {
+        entry.value.status = "public"
+      }
+      statusCache.set(chunk[index], entry.value)
+      statuses.set(chunk[index], entry.value)
+    })
+  }
+
+  return statuses
+}
+
 export async function updateModelStatus(modelName: string, status: ModelStatus): Promise<void> {
   await kv.set(["statuses", modelName], status)
   // Update cache
@@ -247,6 +556,67 @@ export async function getModelQueue(): Promise<string[]> {
   return (await kv.get<string[]>(["models_queue"])).value || []
 }
 
+// Cached results of "does this model exist?" lookups. Positive results are
+// kept for a week, negative ones briefly in case the account was just created.
+export async function getModelLookup(modelName: string): Promise<ModelLookup | null> {
+  return (await kv.get<ModelLookup>(["model_lookups", modelName])).value
+}
+
+export async function setModelLookup(modelName: string, exists: boolean): Promise<void> {
+  const expireIn = exists ? 7 * 24 * 60 * 60 * 1000 : 60 * 60 * 1000
+  await kv.set(["model_lookups", modelName], { exists, checked_at: Date.now() }, { expireIn })
+}
+
+// Snapshots of untracked models from one-off status lookups, kept briefly
+export async function getCachedSnapshot(modelName: string): Promise<RoomSnapshot | null> {
+  return (await kv.get<RoomSnapshot>(["snapshot_cache", modelName])).value
+}
+
+export async function setCachedSnapshot(modelName: string, snapshot: RoomSnapshot): Promise<void> {
+  await kv.set(["snapshot_cache", modelName], snapshot, { expireIn: 2 * 60 * 1000 })
+}
+
+// Track models that keep returning 404 so their subscribers can be told
+export async function getNotFoundRecord(modelName: string): Promise<NotFoundRecord | null> {
+  return (await kv.get<NotFoundRecord>(["not_found", modelName])).value
+}
+
+export async function recordModelNotFound(modelName: string): Promise<NotFoundRecord> {
+  const existing = await getNotFoundRecord(modelName)
+  if (existing) return existing
+
+  const record: NotFoundRecord = { since: Date.now(), flagged_at: null }
+  await kv.set(["not_found", modelName], record)
+  return record
+}
+
+export async function markNotFoundFlagged(modelName: string, record: NotFoundRecord): Promise<void> {
+  await kv.set(["not_found", modelName], { ...record, flagged_at: Date.now() })
+}
+
+export async function clearModelNotFound(modelName: string): Promise<void> {
+  await kv.delete(["not_found", modelName])
+}
+
+// Polling schedule per model, used by the adaptive scheduler
+export async function getModelSchedules(modelNames: string[]): Promise<Map<string, ModelSchedule>> {
+  const schedules = new Map<string, ModelSchedule>()
+  
+  for (let i = 0; i < modelNames.length; i += 10) {
+    const chunk = modelNames.slice(i, i + 10)
+    const entries = await kv.getMany<ModelSchedule[]>(chunk.map((name) => ["schedules", name]))
+    entries.forEach((entry, index) => {
+      if (entry.value) schedules.set(chunk[index], entry.value)
+    })
+  }
+  
+  return schedules
+}
+
+export async function setModelSchedule(modelName: string, schedule: ModelSchedule): Promise<void> {
+  await kv.set(["schedules", modelName], schedule)
+}
+
 // Remove model from queue and clean up related data
 async function removeModelFromQueue(modelName: string): Promise<void> {
   console.log(`🧹 Model ${modelName} has no subscribers, removing from queue`)
@@ -266,6 +636,8 @@ async function removeModelFromQueue(modelName: string): Promise<void> {
         .set(["models_queue"], filteredQueue)
         .delete(["statuses", modelName])
         .delete(["model_subscribers", modelName])
+        .delete(["schedules", modelName])
+        .delete(["not_found", modelName])
         .commit()
       success = commitResult.ok
       
@@ -415,14 +787,582 @@ export async function removeUserAndAllSubscriptions(chatId: number): Promise<voi
   
   // Remove user from global users list and array
   await kv.delete(["users", chatId])
+  await kv.delete(["user_settings", chatId])
+  await kv.delete(["tag_settings", chatId])
+  await kv.delete(["user_tiers", chatId])
+  await kv.delete(["subscription_counts", chatId])
+  await kv.delete(["digest_sent", chatId, "daily"])
+  await kv.delete(["digest_sent", chatId, "weekly"])
   await removeUserFromArray(chatId)
   
   // Clean up any remaining user state
   await clearUserState(chatId)
+  await clearPendingNotifications(chatId)
   
   console.log(`✅ Cleaned up user ${chatId} and ${userSubscriptions.length} subscriptions`)
 }
 
+// Moves a group's subscriptions and settings to its new id after Telegram
+// upgraded it to a supergroup
+export async function migrateChat(oldChatId: number, newChatId: number): Promise<void> {
+  console.log(`🔀 Moving chat ${oldChatId} to ${newChatId}`)
+  await addUser(newChatId)
+
+  for await (const entry of kv.list<SubscriptionPrefs>({ prefix: ["subscriptions", oldChatId] })) {
+    const modelName = entry.key[2] as string
+    await addUserSubscription(newChatId, modelName)
+    await updateSubscriptionPrefs(newChatId, modelName, entry.value)
+    await setSubscriptionTags(newChatId, modelName, await getSubscriptionTags(oldChatId, modelName))
+  }
+
+  const settings = await kv.get<UserSettings>(["user_settings", oldChatId])
+  if (settings.value) {
+    await kv.set(["user_settings", newChatId], settings.value)
+  }
+  const tagSettings = await kv.get<Record<string, TagSettings>>(["tag_settings", oldChatId])
+  if (tagSettings.value) {
+    await kv.set(["tag_settings", newChatId], tagSettings.value)
+  }
+  const tier = await getUserTier(oldChatId)
+  if (tier) {
+    await setUserTier(newChatId, tier)
+  }
+
+  await removeUserAndAllSubscriptions(oldChatId)
+}
+
+// Subscription tiers assigned by admins. Chats without one are on the
+// default tier.
+export async function getUserTier(chatId: number): Promise<string | null> {
+  return (await kv.get<string>(["user_tiers", chatId])).value
+}
+
+export async function setUserTier(chatId: number, tier: string | null): Promise<void> {
+  if (tier === null) {
+    await kv.delete(["user_tiers", chatId])
+  } else {
+    await kv.set(["user_tiers", chatId], tier)
+  }
+}
+
+export async function listUserTiers(): Promise<Map<number, string>> {
+  const tiers = new Map<number, string>()
+  for await (const entry of kv.list<string>({ prefix: ["user_tiers"] })) {
+    tiers.set(entry.key[1] as number, entry.value)
+  }
+  return tiers
+}
+
+// Number of subscriptions of every chat, in one pass over all of them
+export async function countSubscriptionsByChat(): Promise<Map<number, number>> {
+  const counts = new Map<number, number>()
+  for await (const entry of kv.list({ prefix: ["subscriptions"] })) {
+    const chatId = entry.key[1] as number
+    counts.set(chatId, (counts.get(chatId) ?? 0) + 1)
+  }
+  return counts
+}
+
+// Tags on subscriptions, stored next to the subscription records
+export async function getSubscriptionTags(chatId: number, modelName: string): Promise<string[]> {
+  return (await kv.get<string[]>(["subscription_tags", chatId, modelName])).value ?? []
+}
+
+export async function setSubscriptionTags(chatId: number, modelName: string, tags: string[]): Promise<void> {
+  if (tags.length === 0) {
+    await kv.delete(["subscription_tags", chatId, modelName])
+  } else {
+    await kv.set(["subscription_tags", chatId, modelName], tags)
+  }
+}
+
+// Tags of every subscription of a chat, keyed by model
+export async function getSubscriptionTagsByChat(chatId: number): Promise<Map<string, string[]>> {
+  const tags = new Map<string, string[]>()
+  for await (const entry of kv.list<string[]>({ prefix: ["subscription_tags", chatId] })) {
+    tags.set(entry.key[2] as string, entry.value)
+  }
+  return tags
+}
+
+// Settings of all of a chat's tags, in one record per chat
+export async function getTagSettings(chatId: number): Promise<Record<string, TagSettings>> {
+  return (await kv.get<Record<string, TagSettings>>(["tag_settings", chatId])).value ?? {}
+}
+
+export async function updateTagSettings(chatId: number, tag: string, changes: Partial<TagSettings>): Promise<TagSettings> {
+  const key = ["tag_settings", chatId]
+  const maxAttempts = 5
+
+  for (let attempts = 0; attempts < maxAttempts; attempts++) {
+    const entry = await kv.get<Record<string, TagSettings>>(key)
+    const updated = { ...DEFAULT_TAG_SETTINGS, ...entry.value?.[tag], ...changes }
+    const commitResult = await kv.atomic()
+      .check(entry)
+      .set(key, { ...entry.value, [tag]: updated })
+      .commit()
+    if (commitResult.ok) return updated
+
+    await sleep(Math.random() * 50)
+  }
+
+  throw new Error(`Failed to update tag ${tag} for ${chatId}`)
+}
+
+// Chats that set a delivery mode on at least one tag
+export async function* listTagDeliveryChats(): AsyncGenerator<number> {
+  for await (const entry of kv.list<Record<string, TagSettings>>({ prefix: ["tag_settings"] })) {
+    if (Object.values(entry.value).some((tag) => tag.delivery !== null)) {
+      yield entry.key[1] as number
+    }
+  }
+}
+
+/**
+ * Works out the settings that apply to one model for many subscribers,
+ * reading everything involved in chunks of ten.
+ */
+export async function getEffectivePrefsMany(modelName: string, chatIds: number[]): Promise<Map<number, EffectivePrefs>> {
+  const settings = await getUserSettingsMany(chatIds)
+  const prefs = await getSubscriptionPrefsMany(modelName, chatIds)
+  const effective = new Map<number, EffectivePrefs>()
+
+  for (let i = 0; i < chatIds.length; i += 10) {
+    const chunk = chatIds.slice(i, i + 10)
+    const tags = await kv.getMany<string[][]>(chunk.map((id) => ["subscription_tags", id, modelName]))
+    const tagged = chunk.filter((_, index) => (tags[index].value ?? []).length > 0)
+    const tagSettings = tagged.length > 0
+      ? await kv.getMany<Record<string, TagSettings>[]>(tagged.map((id) => ["tag_settings", id]))
+      : []
+
+    chunk.forEach((chatId, index) => {
+      const chatTags = tags[index].value ?? []
+      const chatTagSettings = tagSettings[tagged.indexOf(chatId)]?.value ?? {}
+      effective.set(
+        chatId,
+        resolvePrefs(settings.get(chatId) ?? DEFAULT_USER_SETTINGS, prefs.get(chatId) ?? null, chatTags, chatTagSettings),
+      )
+    })
+  }
+
+  return effective
+}
+
+// Upstream circuit breaker state, shared by all isolates
+function defaultCircuitStatus(): CircuitStatus {
+  const now = Date.now()
+  return {
+    state: "closed",
+    changed_at: now,
+    opened_at: null,
+    window_start: now,
+    successes: 0,
+    failures: 0,
+    probe_successes: 0,
+    last_error: null,
+  }
+}
+
+export async function getCircuitStatus(name: string): Promise<CircuitStatus> {
+  const result = await kv.get<CircuitStatus>(["circuits", name])
+  return result.value ?? defaultCircuitStatus()
+}
+
+export async function listCircuitStatuses(): Promise<Map<string, CircuitStatus>> {
+  const statuses = new Map<string, CircuitStatus>()
+  for await (const entry of kv.list<CircuitStatus>({ prefix: ["circuits"] })) {
+    statuses.set(entry.key[1] as string, entry.value)
+  }
+  return statuses
+}
+
+// Atomically apply a change to a circuit, retrying on contention.
+// Returns null if the change could not be committed.
+export async function updateCircuitStatus(
+  name: string,
+  update: (current: CircuitStatus) => CircuitStatus,
+): Promise<{ previous: CircuitStatus; current: CircuitStatus } | null> {
+  const maxAttempts = 5
+
+  for (let attempts = 0; attempts < maxAttempts; attempts++) {
+    const entry = await kv.get<CircuitStatus>(["circuits", name])
+    const previous = entry.value ?? defaultCircuitStatus()
+    const current = update(previous)
+
+    const commitResult = await kv.atomic()
+      .check(entry)
+      .set(["circuits", name], current)
+      .commit()
+    if (commitResult.ok) return { previous, current }
+
+    await sleep(Math.random() * 50)
+  }
+
+  console.error(`Failed to update circuit ${name} after ${maxAttempts} attempts`)
+  return null
+}
+
+// Shared rate limit buckets. The update function returns the new bucket, or
+// null to leave it unchanged. Returns false if the change could not be
+// committed because of contention. A bucket left alone for a few minutes
+// would be full again anyway, so it expires instead of being kept for every
+// chat that was ever sent something.
+const TOKEN_BUCKET_TTL_MS = 5 * 60 * 1000
+
+export async function updateTokenBucket(
+  name: string,
+  update: (current: TokenBucket | null) => TokenBucket | null,
+): Promise<boolean> {
+  const maxAttempts = 5
+
+  for (let attempts = 0; attempts < maxAttempts; attempts++) {
+    const entry = await kv.get<TokenBucket>(["rate_limits", name])
+    const updated = update(entry.value)
+    if (!updated) return true
+
+    const expireIn = Math.max(updated.blocked_until - Date.now(), 0) + TOKEN_BUCKET_TTL_MS
+    const commitResult = await kv.atomic()
+      .check(entry)
+      .set(["rate_limits", name], updated, { expireIn })
+      .commit()
+    if (commitResult.ok) return true
+
+    await sleep(Math.random() * 50)
+  }
+
+  return false
+}
+
+// User notification settings, stored next to the subscription records
+export async function getUserSettings(chatId: number): Promise<UserSettings> {
+  const result = await kv.get<Partial<UserSettings>>(["user_settings", chatId])
+  return { ...DEFAULT_USER_SETTINGS, ...result.value }
+}
+
+export async function updateUserSettings(chatId: number, changes: Partial<UserSettings>): Promise<UserSettings> {
+  const key = ["user_settings", chatId]
+  const maxAttempts = 5
+
+  for (let attempts = 0; attempts < maxAttempts; attempts++) {
+    const entry = await kv.get<Partial<UserSettings>>(key)
+    const settings = { ...DEFAULT_USER_SETTINGS, ...entry.value, ...changes }
+    const commitResult = await kv.atomic()
+      .check(entry)
+      .set(key, settings)
+      .commit()
+    if (commitResult.ok) return settings
+
+    await sleep(Math.random() * 50)
+  }
+
+  throw new Error(`Failed to update settings for ${chatId}`)
+}
+
+// Iterate over every user who has changed their settings from the defaults
+export async function* listUserSettings(): AsyncGenerator<[number, UserSettings]> {
+  for await (const entry of kv.list<Partial<UserSettings>>({ prefix: ["user_settings"] })) {
+    yield [entry.key[1] as number, { ...DEFAULT_USER_SETTINGS, ...entry.value }]
+  }
+}
+
+// Fetch settings for many users at once (getMany is limited to 10 keys per call)
+export async function getUserSettingsMany(chatIds: number[]): Promise<Map<number, UserSettings>> {
+  const settings = new Map<number, UserSettings>()
+  
+  for (let i = 0; i < chatIds.length; i += 10) {
+    const chunk = chatIds.slice(i, i + 10)
+    const entries = await kv.getMany<Partial<UserSettings>[]>(chunk.map((id) => ["user_settings", id]))
+    entries.forEach((entry, index) => {
+      settings.set(chunk[index], { ...DEFAULT_USER_SETTINGS, ...entry.value })
+    })
+  }
+  
+  return settings
+}
+
+// Finished sessions per model, kept for a little over a week for digests
+export async function recordSession(modelName: string, session: SessionRecord): Promise<void> {
+  await kv.set(["sessions", modelName, session.ended_at], session, { expireIn: 8 * 24 * 60 * 60 * 1000 })
+}
+
+export async function getSessionsSince(modelName: string, since: number): Promise<SessionRecord[]> {
+  const sessions: SessionRecord[] = []
+  for await (const entry of kv.list<SessionRecord>({ start: ["sessions", modelName, since], end: ["sessions", modelName, Infinity] })) {
+    sessions.push(entry.value)
+  }
+  return sessions
+}
+
+export async function getLastDigestTime(chatId: number, mode: DeliveryMode): Promise<number | null> {
+  return (await kv.get<number>(["digest_sent", chatId, mode])).value
+}
+
+export async function setLastDigestTime(chatId: number, mode: DeliveryMode, time: number): Promise<void> {
+  await kv.set(["digest_sent", chatId, mode], time)
+}
+
+// Live-updating messages, keyed by model so each check can update them all.
+// They expire after three days in case a session end is never seen.
+export async function getLiveMessages(modelName: string): Promise<Map<number, LiveMessage>> {
+  const messages = new Map<number, LiveMessage>()
+  for await (const entry of kv.list<LiveMessage>({ prefix: ["live_messages", modelName] })) {
+    messages.set(entry.key[2] as number, entry.value)
+  }
+  return messages
+}
+
+export async function getLiveMessage(modelName: string, chatId: number): Promise<LiveMessage | null> {
+  const result = await kv.get<LiveMessage>(["live_messages", modelName, chatId])
+  return result.value
+}
+
+export async function setLiveMessage(modelName: string, chatId: number, message: LiveMessage): Promise<void> {
+  await kv.set(["live_messages", modelName, chatId], message, { expireIn: 3 * 24 * 60 * 60 * 1000 })
+}
+
+export async function deleteLiveMessage(modelName: string, chatId: number): Promise<void> {
+  await kv.delete(["live_messages", modelName, chatId])
+}
+
+// Notification outbox, delivered through the KV queue. Messages the queue
+// itself gives up on are written to the dead letters as well.
+const DELIVERY_STATUS_TTL_MS = 7 * 24 * 60 * 60 * 1000
+const DEAD_LETTER_TTL_MS = 30 * 24 * 60 * 60 * 1000
+
+export async function enqueueOutbox(message: OutboxMessage, delayMs = 0): Promise<void> {
+  await kv.enqueue(message, {
+    delay: delayMs,
+    keysIfUndelivered: [["dead_letters", message.id]],
+  })
+}
+
+export function listenOutbox(handler: (message: OutboxMessage) => Promise<void>): void {
+  kv.listenQueue(async (value: unknown) => {
+    await handler(value as OutboxMessage)
+  })
+}
+
+export async function setDeliveryStatus(id: string, status: DeliveryStatus): Promise<void> {
+  await kv.set(["deliveries", id], status, { expireIn: DELIVERY_STATUS_TTL_MS })
+}
+
+export async function getDeliveryStatus(id: string): Promise<DeliveryStatus | null> {
+  const result = await kv.get<DeliveryStatus>(["deliveries", id])
+  return result.value
+}
+
+export async function addDeadLetter(message: OutboxMessage, error: string): Promise<void> {
+  await kv.set(["dead_letters", message.id], { ...message, error }, { expireIn: DEAD_LETTER_TTL_MS })
+}
+
+export async function countDeadLetters(): Promise<number> {
+  let count = 0
+  for await (const _ of kv.list({ prefix: ["dead_letters"] })) {
+    count++
+  }
+  return count
+}
+
+// Telegram file ids of uploaded room photos, one per model session. Only the
+// online alerts use them, and those all go out within minutes.
+const SESSION_PHOTO_TTL_MS = 60 * 60 * 1000
+const PHOTO_UPLOAD_CLAIM_MS = 30_000
+
+export async function getSessionPhoto(modelName: string, sessionStart: number): Promise<string | null> {
+  const result = await kv.get<string>(["session_photos", modelName, sessionStart])
+  return result.value
+}
+
+export async function setSessionPhoto(modelName: string, sessionStart: number, fileId: string): Promise<void> {
+  await kv.set(["session_photos", modelName, sessionStart], fileId, { expireIn: SESSION_PHOTO_TTL_MS })
+}
+
+// Claims the upload of a session's photo, so concurrent deliveries don't all
+// upload it. Returns false if someone else is already uploading it.
+export async function claimSessionPhotoUpload(modelName: string, sessionStart: number): Promise<boolean> {
+  const key = ["session_photo_uploads", modelName, sessionStart]
+  const result = await kv.atomic()
+    .check({ key, versionstamp: null })
+    .set(key, Date.now(), { expireIn: PHOTO_UPLOAD_CLAIM_MS })
+    .commit()
+  return result.ok
+}
+
+export async function releaseSessionPhotoUpload(modelName: string, sessionStart: number): Promise<void> {
+  await kv.delete(["session_photo_uploads", modelName, sessionStart])
+}
+
+// Packs: named lists of models a user published, shared with a
+// t.me/bot?start=pack-<id> link. The models are a copy of the list at the
+// time, so later changes to the owner's list don't affect the pack.
+export interface Pack {
+  id: string
+  owner_id: number
+  name: string
+  models: string[]
+  created_at: number
+  import_count: number // Distinct users who subscribed to something from it
+}
+
+const ID_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789"
+
+function randomId(): string {
+  return [...crypto.getRandomValues(new Uint8Array(8))]
+    .map((byte) => ID_ALPHABET[byte % ID_ALPHABET.length])
+    .join("")
+}
+
+export async function createPack(ownerId: number, name: string, models: string[]): Promise<Pack> {
+  let attempts = 0
+  const maxAttempts = 5
+
+  while (attempts < maxAttempts) {
+    const pack: Pack = { id: randomId(), owner_id: ownerId, name, models, created_at: Date.now(), import_count: 0 }
+    const commitResult = await kv.atomic()
+      .check({ key: ["packs", pack.id], versionstamp: null }) // Ids are random, so make sure it's new
+      .set(["packs", pack.id], pack)
+      .set(["user_packs", ownerId, pack.id], true)
+      .commit()
+    if (commitResult.ok) return pack
+
+    attempts++
+  }
+  throw new Error(`Failed to create a pack for ${ownerId} after ${maxAttempts} attempts`)
+}
+
+export async function getPack(id: string): Promise<Pack | null> {
+  const result = await kv.get<Pack>(["packs", id])
+  return result.value
+}
+
+export async function getUserPacks(ownerId: number): Promise<Pack[]> {
+  const ids: string[] = []
+  for await (const entry of kv.list({ prefix: ["user_packs", ownerId] })) {
+    ids.push(entry.key[2] as string)
+  }
+
+  const packs: Pack[] = []
+  for (let i = 0; i < ids.length; i += 10) {
+    const chunk = ids.slice(i, i + 10)
+    const entries = await kv.getMany<Pack[]>(chunk.map((id) => ["packs", id]))
+    entries.forEach((entry) => {
+      if (entry.value) packs.push(entry.value)
+    })
+  }
+  return packs.sort((a, b) => a.created_at - b.created_at)
+}
+
+export async function deletePack(ownerId: number, id: string): Promise<boolean> {
+  const pack = await getPack(id)
+  if (!pack || pack.owner_id !== ownerId) return false
+
+  await kv.atomic()
+    .delete(["packs", id])
+    .delete(["user_packs", ownerId, id])
+    .commit()
+  for await (const entry of kv.list({ prefix: ["pack_imports", id] })) {
+    await kv.delete(entry.key)
+  }
+  return true
+}
+
+// Counts a user towards the pack's imports, once per user
+export async function recordPackImport(id: string, userId: number): Promise<void> {
+  let success = false
+  let attempts = 0
+  const maxAttempts = 5
+
+  while (!success && attempts < maxAttempts) {
+    const packResult = await kv.get<Pack>(["packs", id])
+    if (!packResult.value || packResult.value.owner_id === userId) return
+
+    const importKey = ["pack_imports", id, userId]
+    const commitResult = await kv.atomic()
+      .check(packResult)
+      .check({ key: importKey, versionstamp: null })
+      .set(importKey, Date.now())
+      .set(["packs", id], { ...packResult.value, import_count: packResult.value.import_count + 1 })
+      .commit()
+    success = commitResult.ok
+
+    if (!success) {
+      // Already counted if the import record exists
+      if ((await kv.get(importKey)).versionstamp !== null) return
+      attempts++
+      if (attempts < maxAttempts) {
+        await sleep(Math.random() * 50)
+      }
+    }
+  }
+}
+
+// Short ids for model keys, used in button callback data: Telegram allows 64
+// bytes and a key can be longer than that on its own. Refs never change or
+// expire, so buttons on old messages keep working.
+export async function getModelRef(modelName: string): Promise<string> {
+  let attempts = 0
+  const maxAttempts = 5
+
+  while (attempts < maxAttempts) {
+    const existing = await kv.get<string>(["model_ref_ids", modelName])
+    if (existing.value) return existing.value
+
+    const ref = randomId()
+    const commitResult = await kv.atomic()
+      .check(existing)
+      .check({ key: ["model_refs", ref], versionstamp: null }) // Ids are random, so make sure it's new
+      .set(["model_refs", ref], modelName)
+      .set(["model_ref_ids", modelName], ref)
+      .commit()
+    if (commitResult.ok) return ref
+
+    attempts++
+    if (attempts < maxAttempts) {
+      await sleep(Math.random() * 50)
+    }
+  }
+  throw new Error(`Failed to create a ref for ${modelName} after ${maxAttempts} attempts`)
+}
+
+export async function resolveModelRef(ref: string): Promise<string | null> {
+  const result = await kv.get<string>(["model_refs", ref])
+  return result.value
+}
+
+// Deferred notifications, held during quiet hours. They expire after two
+// days so a user whose quiet hours never end doesn't pile them up forever.
+export async function addPendingNotification(chatId: number, pending: PendingNotification): Promise<void> {
+  await kv.set(["pending_notifications", chatId, pending.created_at, crypto.randomUUID()], pending, {
+    expireIn: 48 * 60 * 60 * 1000,
+  })
+}
+
+// The entries come with their keys, so exactly the ones that were summarized
+// can be deleted afterwards
+export async function getPendingNotificationsByUser(): Promise<Map<number, Deno.KvEntry<PendingNotification>[]>> {
+  const pending = new Map<number, Deno.KvEntry<PendingNotification>[]>()
+  for await (const entry of kv.list<PendingNotification>({ prefix: ["pending_notifications"] })) {
+    const chatId = entry.key[1] as number
+    pending.set(chatId, [...(pending.get(chatId) ?? []), entry])
+  }
+  return pending
+}
+
+// Deletes deferred notifications that were read and summarized. Entries
+// added in the meantime are left for the next summary.
+export async function deletePendingNotifications(keys: Deno.KvKey[]): Promise<void> {
+  for (const key of keys) {
+    await kv.delete(key)
+  }
+}
+
+// Deletes all of a user's deferred notifications
+export async function clearPendingNotifications(chatId: number): Promise<void> {
+  for await (const entry of kv.list({ prefix: ["pending_notifications", chatId] })) {
+    await kv.delete(entry.key)
+  }
+}
+
 // User state management functions
 export async function getUserState(chatId: number): Promise<UserState | null> {
   const result = await kv.get<UserState>(["user_states", chatId])
@@ -465,7 +1405,7 @@ export async function cleanupExpiredStates(): Promise<number> {
 }
 
 // Notification deduplication system
-export async function isRecentNotification(chatId: number, modelName: string, type: "online" | "offline"): Promise<boolean> {
+export async function isRecentNotification(chatId: number, modelName: string, type: NotificationType): Promise<boolean> {
   const key = ["recent_notifications", chatId, modelName, type]
   const result = await kv.get<number>(key)
   
@@ -477,7 +1417,7 @@ export async function isRecentNotification(chatId: number, modelName: string, ty
   return timeSinceLastNotification < DEDUP_WINDOW_MS
 }
 
-export async function recordNotification(chatId: number, modelName: string, type: "online" | "offline"): Promise<void> {
+export async function recordNotification(chatId: number, modelName: string, type: NotificationType): Promise<void> {
   const key = ["recent_notifications", chatId, modelName, type]
   const now = Date.now()
   
@@ -485,6 +1425,132 @@ export async function recordNotification(chatId: number, modelName: string, type
   await kv.set(key, now, { expireIn: 10 * 60 * 1000 })
 }
 
+// Snoozed models send nothing until the snooze runs out
+export async function isSnoozed(chatId: number, modelName: string): Promise<boolean> {
+  const result = await kv.get<number>(["snoozes", chatId, modelName])
+  return result.value !== null && result.value > Date.now()
+}
+
+export async function snoozeModel(chatId: number, modelName: string, durationMs: number): Promise<void> {
+  await kv.set(["snoozes", chatId, modelName], Date.now() + durationMs, { expireIn: durationMs })
+}
+
+export async function getSubscriptionPrefs(chatId: number, modelName: string): Promise<SubscriptionPrefs | null> {
+  const result = await kv.get<SubscriptionPrefs>(["subscriptions", chatId, modelName])
+  return result.value
+}
+
+// Returns the updated preferences, or null if the user isn't subscribed
+export async function updateSubscriptionPrefs(
+  chatId: number,
+  modelName: string,
+  changes: Partial<SubscriptionPrefs>,
+): Promise<SubscriptionPrefs | null> {
+  const key = ["subscriptions", chatId, modelName]
+  const maxAttempts = 5
+
+  for (let attempts = 0; attempts < maxAttempts; attempts++) {
+    const entry = await kv.get<SubscriptionPrefs>(key)
+    if (!entry.value) return null
+
+    const updated = { ...entry.value, ...changes }
+    const commitResult = await kv.atomic()
+      .check(entry)
+      .set(key, updated)
+      .commit()
+    if (commitResult.ok) return updated
+
+    await sleep(Math.random() * 50)
+  }
+
+  throw new Error(`Failed to update subscription ${modelName} for ${chatId}`)
+}
+
+// Preferences of many subscribers of one model, read in chunks of ten
+export async function getSubscriptionPrefsMany(modelName: string, chatIds: number[]): Promise<Map<number, SubscriptionPrefs>> {
+  const prefs = new Map<number, SubscriptionPrefs>()
+
+  for (let i = 0; i < chatIds.length; i += 10) {
+    const chunk = chatIds.slice(i, i + 10)
+    const entries = await kv.getMany<SubscriptionPrefs[]>(chunk.map((id) => ["subscriptions", id, modelName]))
+    entries.forEach((entry, index) => {
+      if (entry.value) prefs.set(chunk[index], entry.value)
+    })
+  }
+
+  return prefs
+}
+
+// Migration function to rename records keyed by bare model names (from before
+// status providers existed) to keys of the default provider
+async function migrateModelKeys(): Promise<void> {
+  const queueResult = await kv.get<string[]>(["models_queue"])
+  const queue = queueResult.value || []
+  const legacyNames = queue.filter(name => !name.includes(":"))
+  if (legacyNames.length === 0) return
+
+  console.log(`📦 Migrating ${legacyNames.length} models to ${DEFAULT_PROVIDER_ID} keys`)
+
+  for (const name of legacyNames) {
+    const modelKey = toModelKey(DEFAULT_PROVIDER_ID, name)
+    const status = await kv.get<ModelStatus>(["statuses", name])
+    const subscribers = await kv.get<number[]>(["model_subscribers", name])
+
+    const op = kv.atomic()
+    if (status.value) op.set(["statuses", modelKey], status.value).delete(["statuses", name])
+    if (subscribers.value) op.set(["model_subscribers", modelKey], subscribers.value).delete(["model_subscribers", name])
+    await op.commit()
+    statusCache.delete(name)
+  }
+
+  // Subscription records are keyed per user, so scan them all
+  let subscriptionCount = 0
+  for await (const entry of kv.list({ prefix: ["subscriptions"] })) {
+    const name = entry.key[2] as string
+    if (name.includes(":")) continue
+    await kv.atomic()
+      .set(["subscriptions", entry.key[1], toModelKey(DEFAULT_PROVIDER_ID, name)], entry.value)
+      .delete(entry.key)
+      .commit()
+    subscriptionCount++
+  }
+
+  // Rewrite the queue last so a failed migration is retried on next startup
+  const migratedQueue = [...new Set(queue.map(name => name.includes(":") ? name : toModelKey(DEFAULT_PROVIDER_ID, name)))]
+  await kv.set(["models_queue"], migratedQueue)
+
+  console.log(`✅ Model key migration complete: ${legacyNames.length} models, ${subscriptionCount} subscriptions`)
+}
+
+// Migration function to turn the `true` subscription records from before
+// per-subscription preferences into SubscriptionPrefs, folding in the
+// per-model "mute offline alerts" records that preceded them
+async function migrateSubscriptionPrefs(): Promise<void> {
+  let subscriptionCount = 0
+  for await (const entry of kv.list({ prefix: ["subscriptions"] })) {
+    if (entry.value !== true) continue
+    await kv.atomic()
+      .check(entry)
+      .set(entry.key, defaultSubscriptionPrefs())
+      .commit()
+    subscriptionCount++
+  }
+
+  let mutedCount = 0
+  for await (const entry of kv.list({ prefix: ["muted_offline"] })) {
+    const chatId = entry.key[1] as number
+    const modelName = entry.key[2] as string
+    const settings = await getUserSettings(chatId)
+    await updateSubscriptionPrefs(chatId, modelName, { events: settings.events.filter((e) => e !== "offline") })
+    await kv.delete(entry.key)
+    mutedCount++
+  }
+
+  if (subscriptionCount > 0 || mutedCount > 0) {
+    console.log(`✅ Subscription preferences migration complete: ${subscriptionCount} subscriptions, ${mutedCount} muted`)
+  }
+}
+
 // Comprehensive migration function for startup
 export async function migrateDatabase(): Promise<void> {
   console.log("🔄 Starting database migration...")
@@ -504,6 +1570,12 @@ export async function migrateDatabase(): Promise<void> {
     }
   }
   
+  // Move bare model names to "provider:username" keys
+  await migrateModelKeys()
+  
+  // Turn boolean subscription records into preferences
+  await migrateSubscriptionPrefs()
+  
   // Verify final counts
   const finalUserCount = (await getAllUserIds()).length
   console.log(`✅ Database migration complete. Users: ${finalUserCount}`)
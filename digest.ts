@@ -0,0 +1,98 @@
+// digest.ts
+//
+// This module builds the daily and weekly digest reports for users who
+// prefer one summary over real-time pings. Sessions are recorded by the
+// status monitor when they end; the report adds up each subscribed model's
+// sessions for the period, plus the one still running, if any.
+
+import * as db from "./database.ts"
+import { displayModelName, roomUrlFor } from "./status-provider.ts"
+import { escapeHTML, formatDuration, splitMessage } from "./utils.ts"
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export const DIGEST_PERIOD_MS: Record<Exclude<db.DeliveryMode, "realtime">, number> = {
+  daily: DAY_MS,
+  weekly: 7 * DAY_MS,
+}
+
+interface ModelSummary {
+  model: string
+  sessions: number
+  totalMs: number
+  longestMs: number
+  liveNow: boolean
+}
+
+async function summarizeModel(model: string, since: number, now: number): Promise<ModelSummary> {
+  const durations = (await db.getSessionsSince(model, since))
+    .map((session) => session.ended_at - Math.max(session.started_at, since))
+
+  // Count the part of a session that is still running
+  const status = await db.getStoredModelStatus(model)
+  const onlineSince = status && status.status !== "offline" ? status.online_since : null
+  if (onlineSince) {
+    durations.push(now - Math.max(onlineSince, since))
+  }
+
+  return {
+    model,
+    sessions: durations.length,
+    totalMs: durations.reduce((sum, ms) => sum + ms, 0),
+    longestMs: Math.max(0, ...durations),
+    liveNow: onlineSince !== null,
+  }
+}
+
+/**
+ * Builds the HTML digest for one user.
+ * @param chatId The user to build the digest for.
+ * @param mode Which digest this is, for the title.
+ * @param since Start of the period covered.
+ * @returns The digest, split into as many messages as it needs.
+ */
+export async function buildDigest(chatId: number, mode: "daily" | "weekly", since: number): Promise<string[] | null> {
+  // Only models that use this digest, through the user's settings or a tag
+  const settings = await db.getUserSettings(chatId)
+  const tags = await db.getSubscriptionTagsByChat(chatId)
+  const tagSettings = await db.getTagSettings(chatId)
+  const models: string[] = []
+  for (const [model, prefs] of await db.getUserSubscriptionsWithPrefs(chatId)) {
+    const effective = db.resolvePrefs(settings, prefs, tags.get(model) ?? [], tagSettings)
+    if (!effective.muted && effective.delivery === mode) models.push(model)
+  }
+  if (models.length === 0) return null
+
+  const now = Date.now()
+  const summaries: ModelSummary[] = []
+  for (const model of models) {
+    summaries.push(await summarizeModel(model, since, now))
+  }
+
+  const active = summaries.filter((summary) => summary.sessions > 0).sort((a, b) => b.totalMs - a.totalMs)
+  const quiet = summaries.filter((summary) => summary.sessions === 0)
+
+  const title = mode === "daily" ? "📰 <b>Your daily digest</b>" : "📰 <b>Your weekly digest</b>"
+  const lines = [title, ""]
+
+  for (const summary of active) {
+    const name = `<a href="${roomUrlFor(summary.model) ?? ""}">${escapeHTML(displayModelName(summary.model))}</a>`
+    const sessionText = summary.sessions === 1 ? "1 stream" : `${summary.sessions} streams`
+    const liveText = summary.liveNow ? " 🟢 live now" : ""
+    // One entry per model, so a split doesn't separate a name from its numbers
+    lines.push(
+      `<b>${name}</b>${liveText}\n` +
+        `   ${sessionText}, ${formatDuration(summary.totalMs)} total, longest ${formatDuration(summary.longestMs)}`,
+    )
+  }
+
+  if (active.length === 0) {
+    lines.push("None of your models streamed in this period.")
+  }
+  if (quiet.length > 0 && active.length > 0) {
+    lines.push("")
+    lines.push(`😴 No streams: ${quiet.map((summary) => escapeHTML(displayModelName(summary.model))).join(", ")}`)
+  }
+
+  return splitMessage(lines)
+}
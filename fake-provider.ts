@@ -0,0 +1,100 @@
+// fake-provider.ts
+//
+// An in-memory StatusProvider for tests. Rooms are set up by hand and no
+// network requests are made, so the monitor can be driven through any
+// sequence of status changes.
+
+import type { RoomSnapshot, ShowType, StatusProvider } from "./status-provider.ts"
+
+export class FakeStatusProvider implements StatusProvider {
+  readonly id: string
+  readonly name = "Fake"
+  private rooms = new Map<string, Partial<RoomSnapshot>>()
+  private failures = new Map<string, string>()
+  fetchCount = 0
+  listingCount = 0
+  bulkEnabled = true // Set to false to simulate a listing outage
+
+  constructor(id = "fake") {
+    this.id = id
+  }
+
+  /**
+   * Sets what the next fetches for a username will return.
+   * @param username The room to update.
+   * @param showType The show type to report.
+   * @param details Any other snapshot fields to report.
+   */
+  setRoom(username: string, showType: ShowType, details: Partial<RoomSnapshot> = {}): void {
+    this.rooms.set(username, { ...details, show_type: showType })
+    this.failures.delete(username)
+  }
+
+  /**
+   * Makes fetches for a username fail with the given error until the room
+   * is set again.
+   */
+  failRoom(username: string, error: string): void {
+    this.failures.set(username, error)
+  }
+
+  removeRoom(username: string): void {
+    this.rooms.delete(username)
+    this.failures.delete(username)
+  }
+
+  reset(): void {
+    this.rooms.clear()
+    this.failures.clear()
+    this.fetchCount = 0
+    this.listingCount = 0
+    this.bulkEnabled = true
+  }
+
+  fetchStatus(username: string): Promise<RoomSnapshot> {
+    this.fetchCount++
+    return Promise.resolve(this.snapshotFor(username))
+  }
+
+  fetchOnlineRooms(): Promise<Map<string, RoomSnapshot> | null> {
+    this.listingCount++
+    if (!this.bulkEnabled) return Promise.resolve(null)
+
+    const listing = new Map<string, RoomSnapshot>()
+    for (const username of this.rooms.keys()) {
+      const snapshot = this.snapshotFor(username)
+      if (snapshot.show_type !== "offline" && snapshot.show_type !== "unknown") {
+        listing.set(username, snapshot)
+      }
+    }
+    return Promise.resolve(listing)
+  }
+
+  private snapshotFor(username: string): RoomSnapshot {
+    const failure = this.failures.get(username)
+    const room = this.rooms.get(username)
+    const showType: ShowType = failure ? "unknown" : room?.show_type ?? "offline"
+
+    return {
+      room_status: failure ? null : showType,
+      num_viewers: null,
+      room_subject: null,
+      tags: [],
+      age: null,
+      gender: null,
+      image_url: null,
+      ...room,
+      show_type: showType,
+      fetched_at: Date.now(),
+      error: failure ?? (room ? null : "not_found"),
+    }
+  }
+
+  roomUrl(username: string): string {
+    return `https://fake.invalid/${username}`
+  }
+
+  isValidUsername(username: string): boolean {
+    return /^[a-z0-9_]+$/.test(username)
+  }
+}
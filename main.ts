@@ -2,10 +2,25 @@
 // Fixed import paths and database schema issues
 
 import { Bot, webhookCallback } from "https://deno.land/x/grammy@v1.24.0/mod.ts"
-import { registerMessageHandlers } from "./bot-logic.ts" // ✅ Fixed path
+import { registerInlineHandlers, registerMessageHandlers } from "./bot-logic.ts" // ✅ Fixed path
 import * as db from "./database.ts"
-import { fetchModelStatus } from "./api-fetcher.ts" // ✅ Fixed path
-import { sleep, escapeHTML, formatDuration, isUserBlocked } from "./utils.ts"
+import { buildDigest, DIGEST_PERIOD_MS } from "./digest.ts"
+import { enqueueNotification, startOutboxWorker } from "./outbox.ts"
+import { isInQuietHours, runStatusCheck, sendNotifications } from "./monitor.ts"
+import { chaturbateProvider } from "./api-fetcher.ts" // ✅ Fixed path
+import { displayModelName, getProvider, parseModelKey, registerProvider, roomUrlFor } from "./status-provider.ts"
+import { onCircuitTransition } from "./circuit-breaker.ts"
+import { acquireToken, type RateLimit } from "./rate-limiter.ts"
+import {
+  escapeHTML,
+  formatDuration,
+  getLocalMinutes,
+  getLocalWeekday,
+  parseAdminIds,
+  parseIntInRange,
+  parsePositiveInt,
+  splitMessage,
+} from "./utils.ts"
 
 // --- CONFIGURATION & SETUP ---
 const BOT_TOKEN = Deno.env.get("TELEGRAM_TOKEN")
@@ -13,249 +28,163 @@ if (!BOT_TOKEN) {
   throw new Error("TELEGRAM_TOKEN environment variable is not set!")
 }
 
+// --- STATUS PROVIDERS ---
+registerProvider(chaturbateProvider)
+
+const ADMIN_IDS = parseAdminIds(Deno.env.get("ADMIN_IDS"))
+
 console.log("🤖 Initializing bot...")
 const bot = new Bot(BOT_TOKEN)
 
+// --- UPSTREAM HEALTH ALERTS ---
+onCircuitTransition(async (name, previous, current) => {
+  const message = current.state === "open"
+    ? `🚨 <b>${escapeHTML(name)}</b> upstream is failing, status checks paused.\n\nLast error: <code>${escapeHTML(current.last_error ?? "unknown")}</code>`
+    : current.state === "closed"
+    ? `✅ <b>${escapeHTML(name)}</b> upstream recovered, status checks resumed.`
+    : null
+  if (!message) return
+
+  for (const adminId of ADMIN_IDS) {
+    try {
+      await enqueueNotification({ chat_id: adminId, model: null, type: "admin_alert", text: message })
+    } catch (error) {
+      console.error(`Failed to alert admin ${adminId} about ${name} (${previous.state} → ${current.state}):`, error)
+    }
+  }
+})
+
 // --- REGISTER BOT LOGIC ---
 registerMessageHandlers(bot)
+registerInlineHandlers(bot)
+startOutboxWorker(bot.api)
 bot.catch((err) => console.error("Bot handler error:", err.error))
 
 // --- POLLING CRON JOB WITH RECOVERY ---
-Deno.cron("Check Model Statuses", "*/1 * * * *", async () => {
-  console.log("🔍 Checking model statuses...")
-
-  const lockKey = ["cron_lock"]
-  const startTime = Date.now()
-  
-  // Try to acquire lock
-  const { ok } = await db.kv
-    .atomic()
-    .check({ key: lockKey, versionstamp: null })
-    .set(lockKey, { locked: true, startTime }, { expireIn: 55_000 })
-    .commit()
-    
-  if (!ok) {
-    console.log("⏭️ Cron job already running, skipping...")
-    return
+Deno.cron("Check Model Statuses", "*/1 * * * *", runStatusCheck)
+
+// Helper function to turn the notifications held during quiet hours into a
+// summary grouped by model, split into as many messages as it needs
+function buildQuietHoursSummary(pending: db.PendingNotification[]): string[] {
+  const byModel = new Map<string, db.PendingNotification[]>()
+  for (const item of pending) {
+    byModel.set(item.model, [...(byModel.get(item.model) ?? []), item])
   }
 
-  let processedCount = 0
-  let errorCount = 0
-  
-  try {
-    const queue = await db.getModelQueue()
-    console.log(`📋 Checking ${queue.length} models...`)
+  const lines: string[] = []
+  for (const [model, items] of byModel) {
+    const name = `<a href="${roomUrlFor(model) ?? ""}">${escapeHTML(displayModelName(model))}</a>`
+    const sessions = items.filter(item => item.type === "offline")
+    const lastItem = items[items.length - 1]
 
-    if (queue.length === 0) {
-      console.log("📋 No models to check")
-      return
+    if (sessions.length > 0) {
+      const totalMs = sessions.reduce((sum, item) => sum + (item.duration_ms ?? 0), 0)
+      const sessionText = sessions.length > 1 ? ` (${sessions.length} sessions)` : ""
+      lines.push(`• ${name} was online ${formatDuration(totalMs)}${sessionText}`)
+    }
+    if (lastItem.type !== "offline" && lastItem.type !== "not_found") {
+      lines.push(`• ${name} came online and may still be live`)
+    }
+    if (items.some(item => item.type === "not_found")) {
+      lines.push(`• ${name} may no longer exist`)
     }
+  }
 
-    // Process models in smaller batches to reduce memory usage
-    const BATCH_SIZE = 10
-    const totalBatches = Math.ceil(queue.length / BATCH_SIZE)
-    
-    for (let batchIndex = 0; batchIndex < totalBatches; batchIndex++) {
-      const batchStart = batchIndex * BATCH_SIZE
-      const batchEnd = Math.min(batchStart + BATCH_SIZE, queue.length)
-      const batch = queue.slice(batchStart, batchEnd)
-      
-      console.log(`📦 Processing batch ${batchIndex + 1}/${totalBatches} (${batch.length} models)`)
-      
-      // Process batch with some parallelization (but not too much to avoid rate limits)
-      const batchPromises = batch.map(async (model, index) => {
-        try {
-          // Stagger requests to avoid overwhelming the API
-          await sleep(index * 100)
-          
-          const currentStatus = await fetchModelStatus(model)
-          if (currentStatus === "unknown") {
-            console.warn(`⚠️ Unknown status for ${model}, skipping...`)
-            return
-          }
-
-          const storedStatus = await db.getStoredModelStatus(model)
-          const prevStatus = storedStatus?.status ?? "offline"
-
-          if (currentStatus !== prevStatus) {
-            await processStatusChange(model, currentStatus, prevStatus, storedStatus)
-          }
-          
-          processedCount++
-          
-        } catch (error) {
-          errorCount++
-          console.error(`❌ Error processing ${model}:`, error)
-        }
-      })
-      
-      await Promise.all(batchPromises)
-      
-      // Break if too many errors
-      if (errorCount > 5) {
-        console.error("🚨 Too many errors, stopping cron job")
-        break
-      }
-      
-      // Short pause between batches
-      if (batchIndex < totalBatches - 1) {
-        await sleep(1000)
+  return splitMessage(["🌙 <b>While you were asleep:</b>", "", ...lines])
+}
+
+// --- DELIVER NOTIFICATIONS HELD DURING QUIET HOURS ---
+Deno.cron("Deliver Deferred Notifications", "*/5 * * * *", async () => {
+  try {
+    const pendingByUser = await db.getPendingNotificationsByUser()
+    const now = new Date()
+    let queuedCount = 0
+
+    for (const [chatId, pending] of pendingByUser) {
+      const settings = await db.getUserSettings(chatId)
+      if (isInQuietHours(settings, now)) continue
+
+      try {
+        const [text, ...continued] = buildQuietHoursSummary(pending.map(entry => entry.value))
+        await enqueueNotification({
+          chat_id: chatId,
+          model: null,
+          type: "quiet_hours_summary",
+          text,
+          continued,
+        })
+        await db.deletePendingNotifications(pending.map(entry => entry.key))
+        queuedCount++
+      } catch (error) {
+        console.error(`Failed to queue quiet hours summary for ${chatId}:`, error)
       }
     }
-    
-    const executionTime = Date.now() - startTime
-    const cacheStats = db.getCacheStats()
-    
-    console.log(`✅ Cron job completed: ${processedCount} models processed, ${errorCount} errors`)
-    console.log(`⏱️ Execution time: ${executionTime}ms`)
-    console.log(`💾 Cache: ${cacheStats.size} items`)
-    
-    // Log warning if execution took too long
-    if (executionTime > 45000) { // 45 seconds
-      console.warn(`⚠️ Cron job execution took ${executionTime}ms - consider optimizing`)
+
+    if (queuedCount > 0) {
+      console.log(`🌙 Queued ${queuedCount} quiet hours summaries`)
     }
-    
   } catch (error) {
-    console.error("🚨 Critical error in cron job:", error)
-  } finally {
-    // Always release the lock
-    try {
-      await db.kv.delete(lockKey)
-    } catch (error) {
-      console.error("Failed to release cron lock:", error)
-    }
+    console.error("❌ Error delivering deferred notifications:", error)
   }
 })
 
-// Helper function to process status changes with debouncing
-async function processStatusChange(
-  model: string, 
-  currentStatus: string, 
-  prevStatus: string, 
-  storedStatus: db.ModelStatus | null
-) {
-  console.log(`[STATUS CHANGE] ${model}: ${prevStatus} → ${currentStatus}`)
-
-  const subscribers = await db.getModelSubscribers(model)
-  const safeModelName = escapeHTML(model)
-  const modelLink = `https://chaturbate.com/${model}/`
-  const now = Date.now()
-
-  if (currentStatus === "online") {
-    // Model came online - use debounce logic
-    if (prevStatus === "offline") {
-      // First time online - start grace period
-      const newStatusData: db.ModelStatus = {
-        status: "online",
-        online_since: now,
-        notified_users: [],
-        last_notification_time: null
-      }
-      await db.updateModelStatus(model, newStatusData)
-      console.log(`⏰ ${model} online - starting 2-minute grace period`)
-      return
-    } else if (prevStatus === "online") {
-      // Model has been online - check if grace period has passed
-      const GRACE_PERIOD_MS = 2 * 60 * 1000 // 2 minutes
-      const timeOnline = now - (storedStatus?.online_since || now)
-      
-      if (timeOnline < GRACE_PERIOD_MS) {
-        // Still in grace period
-        return
-      }
-      
-      // Grace period passed - check if we need to notify new subscribers
-      const notifiedUsers = storedStatus?.notified_users || []
-      const newSubscribers = subscribers.filter(id => !notifiedUsers.includes(id))
-      
-      if (newSubscribers.length > 0) {
-        console.log(`📢 Notifying ${newSubscribers.length} new subscribers for ${model}`)
-        
-        const message = `✅ <a href="${modelLink}">${safeModelName}</a> is now <b>ONLINE</b>! 🎭`
-        await sendNotifications(newSubscribers, message, model, "online")
-        
-        // Update notification tracking
-        const updatedStatus: db.ModelStatus = {
-          ...storedStatus,
-          notified_users: subscribers, // Mark all current subscribers as notified
-          last_notification_time: now
-        }
-        await db.updateModelStatus(model, updatedStatus)
-      }
-      return
+// --- DAILY / WEEKLY DIGESTS ---
+// Runs hourly and sends each digest user their report at DIGEST_HOUR local
+// time (weekly digests on Mondays)
+const DIGEST_HOUR = parseIntInRange(Deno.env.get("DIGEST_HOUR"), 0, 23, 9)
+
+Deno.cron("Send Digests", "0 * * * *", async () => {
+  const now = new Date()
+  let sentCount = 0
+
+  try {
+    // Users with a digest as their delivery, plus those who set one on a tag
+    const chatIds = new Set<number>()
+    for await (const [chatId, settings] of db.listUserSettings()) {
+      if (settings.delivery !== "realtime") chatIds.add(chatId)
     }
-  } else {
-    // Model went offline - always notify immediately
-    const newStatusData: db.ModelStatus = {
-      status: "offline",
-      online_since: null,
-      notified_users: [],
-      last_notification_time: null
+    for await (const chatId of db.listTagDeliveryChats()) {
+      chatIds.add(chatId)
     }
 
-    let durationText = ""
-    if (storedStatus?.online_since) {
-      const duration = now - storedStatus.online_since
-      durationText = ` (Online for ${formatDuration(duration)})`
-    }
+    for (const chatId of chatIds) {
+      const settings = await db.getUserSettings(chatId)
+      if (Math.floor(getLocalMinutes(now, settings.timezone) / 60) !== DIGEST_HOUR) continue
 
-    const message = `❌ <a href="${modelLink}">${safeModelName}</a> is now <b>OFFLINE</b>.${durationText}`
-    
-    // Update status first
-    await db.updateModelStatus(model, newStatusData)
-    
-    // Send notifications to all subscribers
-    console.log(`📢 Notifying ${subscribers.length} subscribers about ${model} going offline`)
-    await sendNotifications(subscribers, message, model, "offline")
-  }
-}
+      for (const mode of ["daily", "weekly"] as const) {
+        if (mode === "weekly" && getLocalWeekday(now, settings.timezone) !== 1) continue
 
-// Helper function to send notifications with error handling and deduplication
-async function sendNotifications(userIds: number[], message: string, modelName: string, notificationType: "online" | "offline") {
-  let notificationErrors = 0
-  let sentCount = 0
-  let skippedCount = 0
-  
-  for (const chatId of userIds) {
-    try {
-      // Check for recent notification to prevent spam
-      const isRecent = await db.isRecentNotification(chatId, modelName, notificationType)
-      if (isRecent) {
-        skippedCount++
-        continue
-      }
-      
-      await bot.api.sendMessage(chatId, message, {
-        parse_mode: "HTML",
-        disable_web_page_preview: false,
-      })
-      
-      // Record successful notification
-      await db.recordNotification(chatId, modelName, notificationType)
-      sentCount++
-      
-    } catch (error) {
-      notificationErrors++
-      console.error(`Failed to notify ${chatId}:`, error)
-      
-      // Clean up blocked users
-      if (isUserBlocked(error)) {
-        console.log(`🧹 Removing blocked user ${chatId}`)
-        await db.removeUserAndAllSubscriptions(chatId)
-      }
-      
-      // Don't let notification errors stop the entire process
-      if (notificationErrors > 10) {
-        console.warn(`⚠️ Too many notification errors for ${modelName}, stopping notifications`)
-        break
+        // Guard against sending twice if the cron fires again within the hour
+        const periodMs = DIGEST_PERIOD_MS[mode]
+        const lastSent = await db.getLastDigestTime(chatId, mode)
+        if (lastSent && now.getTime() - lastSent < periodMs - 2 * 60 * 60 * 1000) continue
+
+        try {
+          // Null when no subscription of this chat uses this digest
+          const digest = await buildDigest(chatId, mode, now.getTime() - periodMs)
+          if (!digest) continue
+          const [text, ...continued] = digest
+          await enqueueNotification({
+            chat_id: chatId,
+            model: null,
+            type: "digest",
+            text,
+            disable_link_preview: true,
+            continued,
+          })
+          await db.setLastDigestTime(chatId, mode, now.getTime())
+          sentCount++
+        } catch (error) {
+          console.error(`Failed to queue digest for ${chatId}:`, error)
+        }
       }
     }
+
+    console.log(`📰 Queued ${sentCount} digests`)
+  } catch (error) {
+    console.error("❌ Error sending digests:", error)
   }
-  
-  if (skippedCount > 0) {
-    console.log(`📊 ${modelName}: Sent ${sentCount}, skipped ${skippedCount} (recent notifications)`)
-  }
-}
+})
 
 // --- CLEANUP EXPIRED STATES CRON JOB ---
 Deno.cron("Cleanup Expired States", "0 */6 * * *", async () => {
@@ -268,6 +197,68 @@ Deno.cron("Cleanup Expired States", "0 */6 * * *", async () => {
   }
 })
 
+// --- FLAG MODELS THAT NO LONGER EXIST ---
+// Typos and deleted accounts would otherwise be tracked forever without ever
+// notifying anyone. Offline models are looked up once a day; after
+// NOT_FOUND_DAYS of 404s their subscribers are told once.
+const NOT_FOUND_DAYS = parsePositiveInt(Deno.env.get("NOT_FOUND_DAYS"), 7)
+
+// The job only uses what the status sweep leaves over: it paces itself with
+// its own bucket, never waits for the shared upstream one, and stops after
+// MISSING_CHECK_BUDGET_MS. Models it didn't reach get their turn another day.
+const MISSING_CHECK_LIMIT: RateLimit = { capacity: 1, refillPerSecond: 0.5 }
+const MISSING_CHECK_BUDGET_MS = 10 * 60 * 1000
+
+Deno.cron("Flag Missing Models", "30 4 * * *", async () => {
+  console.log("🔎 Looking for models that no longer exist...")
+  let flaggedCount = 0
+  const deadline = Date.now() + MISSING_CHECK_BUDGET_MS
+
+  try {
+    // Random order, so the same models aren't always the ones left out
+    const queue = (await db.getModelQueue()).sort(() => Math.random() - 0.5)
+    for (const model of queue) {
+      const storedStatus = await db.getStoredModelStatus(model)
+      if (storedStatus && storedStatus.status !== "offline") continue
+
+      const { providerId, username } = parseModelKey(model)
+      const provider = getProvider(providerId)
+      if (!provider) continue
+
+      if (!(await acquireToken("missing_models", MISSING_CHECK_LIMIT, Math.max(deadline - Date.now(), 0)))) {
+        console.log("⏳ Out of time, the other models are checked another day")
+        break
+      }
+
+      // Skipped when the status sweep has the upstream bucket busy
+      const snapshot = await provider.fetchStatus(username, 0)
+      if (snapshot.show_type === "unknown") continue
+
+      if (snapshot.error !== "not_found") {
+        await db.clearModelNotFound(model)
+        continue
+      }
+
+      await db.setModelLookup(model, false)
+      const record = await db.recordModelNotFound(model)
+      const missingDays = (Date.now() - record.since) / (24 * 60 * 60 * 1000)
+      if (record.flagged_at || missingDays < NOT_FOUND_DAYS) continue
+
+      const subscribers = await db.getModelSubscribers(model)
+      const safeModelName = escapeHTML(displayModelName(model))
+      const message = `⚠️ <b>${safeModelName}</b> hasn't existed on ${escapeHTML(provider.name)} for ${NOT_FOUND_DAYS} days. ` +
+        `The name may be misspelled or the account deleted.\n\nUse ➖ Remove Model to stop tracking it.`
+      await sendNotifications(subscribers, message, model, "not_found")
+      await db.markNotFoundFlagged(model, record)
+      flaggedCount++
+    }
+
+    console.log(`✅ Flagged ${flaggedCount} missing models`)
+  } catch (error) {
+    console.error("❌ Error flagging missing models:", error)
+  }
+})
+
 // --- MIGRATE DATABASE ON STARTUP ---
 console.log("🔄 Running database migration on startup...")
 await db.migrateDatabase()
@@ -286,3 +277,4 @@ console.log("  ✅ Interactive button interface")
 console.log("  ✅ Deep linking & sharing")
 console.log("  ✅ Admin panel & broadcasting")
 console.log("  ✅ Session duration tracking")
+console.log("  ✅ Private/group/away/hidden show tracking")
@@ -0,0 +1,85 @@
+// model-lookup.ts
+//
+// This module answers "does this model exist?" and "is this model online?"
+// for user-facing flows. Live lookups go through the provider (and so
+// through the shared rate limiter and circuit breaker), and results are
+// cached in KV so repeated checks of the same name don't hit the upstream
+// again.
+
+import * as db from "./database.ts"
+import { getProvider, parseModelKey, type RoomSnapshot, toRoomState } from "./status-provider.ts"
+
+export type LookupResult =
+  | { status: "exists"; snapshot: RoomSnapshot | null }
+  | { status: "not_found" }
+  | { status: "unknown"; reason: string | null } // Upstream unavailable, couldn't tell
+
+export type StatusLookup =
+  | { status: "tracked"; stored: db.ModelStatus } // Kept up to date by the monitor
+  | { status: "live"; snapshot: RoomSnapshot }
+  | { status: "not_found" }
+  | { status: "unknown"; reason: string | null }
+
+/**
+ * Checks whether a model exists, using the cached result when there is one.
+ * @param modelKey The "provider:username" key to look up.
+ * @param maxWaitMs How long to wait for the upstream rate limit. When it runs
+ * out the result is "unknown" rather than a late answer.
+ */
+export async function lookupModel(modelKey: string, maxWaitMs?: number): Promise<LookupResult> {
+  const cached = await db.getModelLookup(modelKey)
+  if (cached) {
+    return cached.exists ? { status: "exists", snapshot: null } : { status: "not_found" }
+  }
+
+  const { providerId, username } = parseModelKey(modelKey)
+  const provider = getProvider(providerId)
+  if (!provider) return { status: "unknown", reason: "unknown_provider" }
+
+  const snapshot = await provider.fetchStatus(username, maxWaitMs)
+  if (snapshot.error === "not_found") {
+    await db.setModelLookup(modelKey, false)
+    return { status: "not_found" }
+  }
+  if (snapshot.show_type === "unknown") {
+    return { status: "unknown", reason: snapshot.error }
+  }
+
+  await db.setModelLookup(modelKey, true)
+  return { status: "exists", snapshot }
+}
+
+/**
+ * Gets a model's current status. Models someone subscribed to use the
+ * monitor's stored status; others are fetched live and the snapshot is
+ * cached for a couple of minutes.
+ * @param modelKey The "provider:username" key to look up.
+ * @param maxWaitMs How long a live fetch may wait for the upstream rate limit.
+ */
+export async function lookupStatus(modelKey: string, maxWaitMs?: number): Promise<StatusLookup> {
+  const stored = await db.getStoredModelStatus(modelKey)
+  if (stored) return { status: "tracked", stored }
+
+  const cachedSnapshot = await db.getCachedSnapshot(modelKey)
+  if (cachedSnapshot) return { status: "live", snapshot: cachedSnapshot }
+
+  const cachedLookup = await db.getModelLookup(modelKey)
+  if (cachedLookup && !cachedLookup.exists) return { status: "not_found" }
+
+  const { providerId, username } = parseModelKey(modelKey)
+  const provider = getProvider(providerId)
+  if (!provider) return { status: "unknown", reason: "unknown_provider" }
+
+  const snapshot = await provider.fetchStatus(username, maxWaitMs)
+  if (snapshot.error === "not_found") {
+    await db.setModelLookup(modelKey, false)
+    return { status: "not_found" }
+  }
+  if (!toRoomState(snapshot)) {
+    return { status: "unknown", reason: snapshot.error }
+  }
+
+  await db.setModelLookup(modelKey, true)
+  await db.setCachedSnapshot(modelKey, snapshot)
+  return { status: "live", snapshot }
+}
@@ -0,0 +1,189 @@
+// monitor.test.ts
+//
+// Drives the status monitor through the fake provider against an in-memory
+// KV database, so no Telegram or Chaturbate requests are made. Run with:
+//
+//   deno test --unstable-kv --allow-env monitor.test.ts
+
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts"
+import type { DeliveryStatus, ModelStatus, UserSettings } from "./database.ts"
+import { FakeStatusProvider } from "./fake-provider.ts"
+import { registerProvider } from "./status-provider.ts"
+
+// The database is opened when it's first imported, so this has to come first
+Deno.env.set("KV_PATH", ":memory:")
+const db = await import("./database.ts")
+const { processStatusChange, runStatusCheck } = await import("./monitor.ts")
+
+const provider = new FakeStatusProvider()
+registerProvider(provider)
+
+const CHAT_ID = 1001
+
+// Each test uses its own model names, since the status cache outlives the reset
+async function reset(): Promise<void> {
+  provider.reset()
+  for await (const entry of db.kv.list({ prefix: [] })) {
+    await db.kv.delete(entry.key)
+  }
+}
+
+async function subscribe(model: string, settings: Partial<UserSettings> = { grace_period_ms: 0 }): Promise<void> {
+  await db.addUser(CHAT_ID)
+  await db.updateUserSettings(CHAT_ID, settings)
+  await db.addUserSubscription(CHAT_ID, model)
+}
+
+// Notifications waiting in the outbox, by type
+async function queuedTypes(): Promise<string[]> {
+  const types: string[] = []
+  for await (const entry of db.kv.list<DeliveryStatus>({ prefix: ["deliveries"] })) {
+    types.push(entry.value.type)
+  }
+  return types.sort()
+}
+
+// One check of a model, the way the cron would do it
+async function check(model: string): Promise<ModelStatus | null> {
+  const username = model.split(":")[1]
+  const snapshot = await provider.fetchStatus(username)
+  await processStatusChange(model, snapshot, await db.getStoredModelStatus(model))
+  return await db.getStoredModelStatus(model)
+}
+
+const testOptions = { sanitizeOps: false, sanitizeResources: false }
+
+Deno.test("coming online notifies subscribers", testOptions, async () => {
+  await reset()
+  await subscribe("fake:alice")
+  provider.setRoom("alice", "public")
+
+  const status = await check("fake:alice")
+
+  assertEquals(status?.status, "public")
+  assertEquals(status?.notified_users, [CHAT_ID])
+  assertEquals(await queuedTypes(), ["online"])
+})
+
+Deno.test("the online notification waits for the grace period", testOptions, async () => {
+  await reset()
+  await subscribe("fake:bella", { grace_period_ms: 2 * 60 * 1000 })
+  provider.setRoom("bella", "public")
+
+  const first = await check("fake:bella")
+  assertEquals(first?.notified_users, [])
+  assertEquals(await queuedTypes(), [])
+
+  // Pretend the session started three minutes ago
+  await db.updateModelStatus("fake:bella", { ...first!, online_since: Date.now() - 3 * 60 * 1000 })
+  const second = await check("fake:bella")
+  assertEquals(second?.notified_users, [CHAT_ID])
+  assertEquals(await queuedTypes(), ["online"])
+})
+
+Deno.test("show changes reach users who got the online message", testOptions, async () => {
+  await reset()
+  await subscribe("fake:cara", { grace_period_ms: 0, events: ["online", "offline", "private", "public"] })
+  provider.setRoom("cara", "public")
+  await check("fake:cara")
+
+  provider.setRoom("cara", "private")
+  const status = await check("fake:cara")
+
+  assertEquals(status?.status, "private")
+  assertEquals(await queuedTypes(), ["online", "private"])
+})
+
+Deno.test("a short offline gap stays in the same session", testOptions, async () => {
+  await reset()
+  await subscribe("fake:dana")
+  provider.setRoom("dana", "public")
+  const online = await check("fake:dana")
+
+  provider.setRoom("dana", "offline")
+  const gap = await check("fake:dana")
+  assertEquals(gap?.status, "public")
+  assertEquals(gap?.offline_checks, 1)
+
+  provider.setRoom("dana", "public")
+  const back = await check("fake:dana")
+  assertEquals(back?.online_since, online?.online_since)
+  assertEquals(back?.reconnects, 1)
+  assertEquals(await queuedTypes(), ["online"])
+})
+
+Deno.test("going offline is confirmed before subscribers are told", testOptions, async () => {
+  await reset()
+  await subscribe("fake:erin")
+  provider.setRoom("erin", "public")
+  await check("fake:erin")
+
+  provider.setRoom("erin", "offline")
+  await check("fake:erin")
+  await check("fake:erin")
+  const status = await check("fake:erin")
+
+  assertEquals(status?.status, "offline")
+  assertEquals(await queuedTypes(), ["offline", "online"])
+})
+
+Deno.test("a failed fetch changes nothing", testOptions, async () => {
+  await reset()
+  await subscribe("fake:fay")
+  provider.setRoom("fay", "public")
+  await check("fake:fay")
+
+  provider.failRoom("fay", "http_503")
+  const status = await check("fake:fay")
+
+  assertEquals(status?.status, "public")
+  assertEquals(status?.offline_checks, 0)
+  assertEquals(await queuedTypes(), ["online"])
+})
+
+Deno.test("the status check resolves models from the bulk listing", testOptions, async () => {
+  await reset()
+  await subscribe("fake:gina")
+  await subscribe("fake:hana")
+  provider.setRoom("gina", "public")
+
+  await runStatusCheck()
+
+  assertEquals(provider.listingCount, 1)
+  assertEquals(provider.fetchCount, 0)
+  assertEquals((await db.getStoredModelStatus("fake:gina"))?.status, "public")
+  assertEquals(await queuedTypes(), ["online"])
+})
+
+Deno.test("the status check falls back to single lookups without a listing", testOptions, async () => {
+  await reset()
+  await subscribe("fake:ivy")
+  provider.setRoom("ivy", "group")
+  provider.bulkEnabled = false
+
+  await runStatusCheck()
+
+  assertEquals(provider.fetchCount, 1)
+  assertEquals((await db.getStoredModelStatus("fake:ivy"))?.status, "group")
+})
+
+Deno.test("models that aren't due are still picked up from the listing", testOptions, async () => {
+  await reset()
+  await subscribe("fake:jade")
+  await subscribe("fake:kim")
+  const later = { next_check_at: Date.now() + 30 * 60 * 1000, last_checked_at: Date.now(), last_online_at: null }
+  await db.setModelSchedule("fake:jade", { ...later, online_hours: new Array(24).fill(0) })
+  await db.setModelSchedule("fake:kim", { ...later, online_hours: new Array(24).fill(0) })
+  provider.setRoom("jade", "public")
+  provider.bulkEnabled = false
+
+  // Without a listing, models that aren't due wait
+  await runStatusCheck()
+  assertEquals(provider.fetchCount, 0)
+  assertEquals(await queuedTypes(), [])
+
+  provider.bulkEnabled = true
+  await runStatusCheck()
+  assertEquals((await db.getStoredModelStatus("fake:jade"))?.status, "public")
+  assertEquals(await queuedTypes(), ["online"])
+})
@@ -0,0 +1,591 @@
+// monitor.ts
+//
+// This module is the status monitor: it checks the tracked models through
+// their providers, runs each one through the online/offline state machine
+// and queues the notifications that follow. It has no Telegram connection
+// of its own (everything goes through the outbox), so it can be driven with
+// the fake provider in tests.
+
+import * as db from "./database.ts"
+import { buildNotificationKeyboard } from "./notification-keyboard.ts"
+import { getDueModels, scheduleNextCheck } from "./scheduler.ts"
+import { enqueueLiveEdit, enqueueNotification } from "./outbox.ts"
+import {
+  displayModelName,
+  emptySnapshot,
+  getProvider,
+  parseModelKey,
+  roomUrlFor,
+  toRoomState,
+  type RoomSnapshot,
+  type RoomState,
+} from "./status-provider.ts"
+import { isRequestAllowed } from "./circuit-breaker.ts"
+import { escapeHTML, formatDuration, getLocalMinutes, isWithinWindow, parsePositiveInt, sleep } from "./utils.ts"
+
+// Flap suppression: a session only ends once the model has been offline for
+// this many consecutive checks or this many minutes, whichever comes first.
+// Shorter gaps count as a reconnect within the same session.
+const OFFLINE_CONFIRM_CHECKS = parsePositiveInt(Deno.env.get("OFFLINE_CONFIRM_CHECKS"), 3)
+const OFFLINE_CONFIRM_MS = parsePositiveInt(Deno.env.get("OFFLINE_CONFIRM_MINUTES"), 5) * 60 * 1000
+
+// The status check holds its lock this long. Direct checks stop being issued
+// after SWEEP_BUDGET_MS, leaving room for the last requests (10s timeout) to
+// finish before the lock expires and the next run starts; models that didn't
+// get their turn are still due and go first next time.
+const LOCK_TTL_MS = 55_000
+const SWEEP_BUDGET_MS = 40_000
+
+/**
+ * Checks the tracked models and handles whatever changed. Every model is
+ * looked up in its provider's bulk listing, which costs nothing extra per
+ * model; the scheduler only decides which of the rest get a request of their
+ * own. Runs from the status cron; a KV lock keeps overlapping runs from
+ * checking twice.
+ */
+export async function runStatusCheck(): Promise<void> {
+  console.log("🔍 Checking model statuses...")
+
+  const lockKey = ["cron_lock"]
+  const startTime = Date.now()
+  
+  // Try to acquire lock
+  const { ok } = await db.kv
+    .atomic()
+    .check({ key: lockKey, versionstamp: null })
+    .set(lockKey, { locked: true, startTime }, { expireIn: LOCK_TTL_MS })
+    .commit()
+    
+  if (!ok) {
+    console.log("⏭️ Cron job already running, skipping...")
+    return
+  }
+
+  let processedCount = 0
+  let errorCount = 0
+  
+  try {
+    const fullQueue = await db.getModelQueue()
+
+    // Leave models alone while their upstream's circuit is open
+    const openCircuits = new Set<string>()
+    for (const providerId of new Set(fullQueue.map(model => parseModelKey(model).providerId))) {
+      if (!(await isRequestAllowed(providerId))) openCircuits.add(providerId)
+    }
+    const queue = fullQueue.filter(model => !openCircuits.has(parseModelKey(model).providerId))
+    if (openCircuits.size > 0) {
+      console.warn(`⛔ Circuit open for ${[...openCircuits].join(", ")}, skipping ${fullQueue.length - queue.length} models`)
+    }
+
+    if (queue.length === 0) {
+      console.log("📋 No models to check")
+      return
+    }
+
+    // Resolve what we can from one bulk listing per provider
+    const { resolved, remaining: unresolved } = await resolveFromBulkListings(queue)
+    const dueModels = await getDueModels(queue)
+    const due = new Set(dueModels)
+    // Most overdue first
+    const remaining = dueModels.filter(model => !resolved.has(model))
+    console.log(
+      `📋 Bulk listing resolved ${resolved.size} of ${queue.length} models, ` +
+      `${remaining.length} of the other ${unresolved.length} are due for a direct check`,
+    )
+
+    for (const [model, snapshot] of resolved) {
+      try {
+        const storedStatus = await db.getStoredModelStatus(model)
+        await processStatusChange(model, snapshot, storedStatus)
+        // Models that stay offline keep their schedule, so their next direct
+        // check (if the listing fails) isn't pushed back every minute
+        const state = toRoomState(snapshot) ?? "offline"
+        if (due.has(model) || state !== "offline" || (storedStatus?.status ?? "offline") !== "offline") {
+          await scheduleNextCheck(model, state)
+        }
+        processedCount++
+      } catch (error) {
+        errorCount++
+        console.error(`❌ Error processing ${model}:`, error)
+      }
+    }
+
+    // Check the rest one by one, in smaller batches to reduce memory usage
+    const BATCH_SIZE = 10
+    const totalBatches = Math.ceil(remaining.length / BATCH_SIZE)
+    
+    const deadline = startTime + SWEEP_BUDGET_MS
+
+    for (let batchIndex = 0; batchIndex < totalBatches; batchIndex++) {
+      if (Date.now() >= deadline) {
+        console.warn(`⏳ Out of time, leaving ${remaining.length - batchIndex * BATCH_SIZE} models for the next run`)
+        break
+      }
+
+      const batchStart = batchIndex * BATCH_SIZE
+      const batchEnd = Math.min(batchStart + BATCH_SIZE, remaining.length)
+      const batch = remaining.slice(batchStart, batchEnd)
+      
+      console.log(`📦 Processing batch ${batchIndex + 1}/${totalBatches} (${batch.length} models)`)
+      
+      // Process batch with some parallelization (but not too much to avoid rate limits)
+      const batchPromises = batch.map(async (model, index) => {
+        try {
+          // Stagger requests to avoid overwhelming the API
+          await sleep(index * 100)
+          
+          const { providerId, username } = parseModelKey(model)
+          const provider = getProvider(providerId)
+          if (!provider) {
+            console.warn(`⚠️ No status provider "${providerId}" for ${model}, skipping...`)
+            return
+          }
+
+          // Don't wait for the rate limit past the deadline
+          const snapshot = await provider.fetchStatus(username, Math.max(deadline - Date.now(), 0))
+          if (snapshot.show_type === "unknown") {
+            console.warn(`⚠️ Unknown status for ${model} (${snapshot.error}), skipping...`)
+            return
+          }
+
+          const storedStatus = await db.getStoredModelStatus(model)
+          await processStatusChange(model, snapshot, storedStatus)
+          await scheduleNextCheck(model, toRoomState(snapshot) ?? "offline")
+          
+          processedCount++
+          
+        } catch (error) {
+          errorCount++
+          console.error(`❌ Error processing ${model}:`, error)
+        }
+      })
+      
+      await Promise.all(batchPromises)
+      
+      // Break if too many errors
+      if (errorCount > 5) {
+        console.error("🚨 Too many errors, stopping cron job")
+        break
+      }
+      
+      // Short pause between batches
+      if (batchIndex < totalBatches - 1) {
+        await sleep(1000)
+      }
+    }
+    
+    const executionTime = Date.now() - startTime
+    const cacheStats = db.getCacheStats()
+    
+    console.log(`✅ Cron job completed: ${processedCount} models processed, ${errorCount} errors`)
+    console.log(`⏱️ Execution time: ${executionTime}ms`)
+    console.log(`💾 Cache: ${cacheStats.size} items`)
+    
+    // Log warning if execution took too long
+    if (executionTime > 45000) { // 45 seconds
+      console.warn(`⚠️ Cron job execution took ${executionTime}ms - consider optimizing`)
+    }
+    
+  } catch (error) {
+    console.error("🚨 Critical error in cron job:", error)
+  } finally {
+    // Always release the lock
+    try {
+      await db.kv.delete(lockKey)
+    } catch (error) {
+      console.error("Failed to release cron lock:", error)
+    }
+  }
+}
+
+// Helper function to look models up in their providers' bulk listings.
+// Models a listing can't settle are returned in `remaining` for a direct check:
+// those whose provider has no listing (or whose listing failed), and those
+// that are missing from the listing but were online last time, since a hidden
+// or private show may not be listed.
+async function resolveFromBulkListings(queue: string[]): Promise<{ resolved: Map<string, RoomSnapshot>; remaining: string[] }> {
+  const listings = new Map<string, Map<string, RoomSnapshot> | null>()
+  const resolved = new Map<string, RoomSnapshot>()
+  const remaining: string[] = []
+
+  for (const model of queue) {
+    const { providerId, username } = parseModelKey(model)
+    const provider = getProvider(providerId)
+    if (!provider?.fetchOnlineRooms) {
+      remaining.push(model)
+      continue
+    }
+
+    if (!listings.has(providerId)) {
+      listings.set(providerId, await provider.fetchOnlineRooms())
+    }
+    const listing = listings.get(providerId)
+    if (!listing) {
+      remaining.push(model)
+      continue
+    }
+
+    const snapshot = listing.get(username)
+    if (snapshot) {
+      resolved.set(model, snapshot)
+      continue
+    }
+
+    const storedStatus = await db.getStoredModelStatus(model)
+    if (storedStatus && storedStatus.status !== "offline") {
+      remaining.push(model)
+    } else {
+      resolved.set(model, emptySnapshot("offline", null))
+    }
+  }
+
+  return { resolved, remaining }
+}
+
+// Helper function to compare a fresh snapshot against the stored status and
+// handle any change with debouncing. Called on every check so that each
+// subscriber's grace period can elapse while the model stays online.
+//
+// State machine: offline → public → private/group/away/hidden → public → offline.
+// Any online state may also go straight to offline.
+export async function processStatusChange(
+  model: string, 
+  snapshot: RoomSnapshot, 
+  storedStatus: db.ModelStatus | null
+) {
+  const currentState = toRoomState(snapshot)
+  if (!currentState) return
+  const prevState = storedStatus?.status ?? "offline"
+
+  // Nothing to do while a model stays offline
+  if (currentState === "offline" && prevState === "offline") return
+
+  if (currentState !== prevState) {
+    console.log(`[STATUS CHANGE] ${model}: ${prevState} → ${currentState}`)
+  }
+
+  const subscribers = await db.getModelSubscribers(model)
+  const safeModelName = escapeHTML(displayModelName(model))
+  const modelLink = roomUrlFor(model) ?? ""
+  const now = Date.now()
+
+  if (currentState !== "offline") {
+    // Model came online - each subscriber is told once their own grace
+    // period has passed, so keep the session open until everyone is handled
+    const sessionStart = prevState === "offline"
+    const onlineStatus: db.ModelStatus = {
+      status: currentState,
+      online_since: sessionStart ? now : storedStatus?.online_since ?? now,
+      notified_users: sessionStart ? [] : storedStatus?.notified_users || [],
+      last_notification_time: sessionStart ? null : storedStatus?.last_notification_time ?? null,
+      snapshot,
+      offline_since: null,
+      offline_checks: 0,
+      reconnects: sessionStart ? 0 : storedStatus?.reconnects ?? 0,
+    }
+    if (sessionStart) {
+      console.log(`⏰ ${model} online - starting grace periods`)
+    } else if (storedStatus?.offline_since) {
+      // Came back before the offline was confirmed - same session
+      onlineStatus.reconnects = (onlineStatus.reconnects ?? 0) + 1
+      console.log(`🔁 ${model} reconnected after ${formatDuration(now - storedStatus.offline_since)}, continuing session`)
+    }
+
+    // Show changed mid-session - only users who already got the ONLINE
+    // message hear about it, otherwise the session start would be skipped
+    if (!sessionStart && currentState !== prevState) {
+      const event: db.StatusEvent = currentState
+      const recipients = await filterByEvent(
+        model,
+        subscribers.filter(id => onlineStatus.notified_users.includes(id)),
+        event,
+      )
+      if (recipients.length > 0) {
+        console.log(`📢 Notifying ${recipients.length} subscribers about ${model}: ${prevState} → ${currentState}`)
+        const message = buildTransitionMessage(modelLink, safeModelName, currentState, prevState)
+        await sendNotifications(recipients, message, model, event)
+      }
+    }
+    
+    // Find subscribers whose grace period has passed since the session started
+    const timeOnline = now - (onlineStatus.online_since ?? now)
+    const pendingSubscribers = subscribers.filter(id => !onlineStatus.notified_users.includes(id))
+    
+    if (pendingSubscribers.length > 0) {
+      const effective = await db.getEffectivePrefsMany(model, pendingSubscribers)
+      const dueSubscribers = pendingSubscribers.filter(id =>
+        timeOnline >= (effective.get(id)?.grace_period_ms ?? db.DEFAULT_USER_SETTINGS.grace_period_ms)
+      )
+      const recipients = dueSubscribers.filter(id => {
+        const prefs = effective.get(id)
+        return prefs !== undefined && db.wantsEvent(prefs, "online")
+      })
+      
+      if (recipients.length > 0) {
+        console.log(`📢 Notifying ${recipients.length} new subscribers for ${model}`)
+        
+        const showText = currentState === "public" ? "" : ` (${SHOW_LABELS[currentState]})`
+        const message = `✅ <a href="${modelLink}">${safeModelName}</a> is now <b>ONLINE</b>${showText}! 🎭`
+        await sendNotifications(recipients, message, model, "online", {
+          live: {
+            sessionStart: onlineStatus.online_since ?? now,
+            text: buildLiveText(modelLink, safeModelName, onlineStatus, now),
+          },
+          photo: snapshot.image_url
+            ? { sessionStart: onlineStatus.online_since ?? now, url: snapshot.image_url }
+            : undefined,
+        })
+        onlineStatus.last_notification_time = now
+      }
+      
+      // Mark everyone who was due as handled, including those who opted out
+      onlineStatus.notified_users = [...onlineStatus.notified_users, ...dueSubscribers]
+    }
+    await db.updateModelStatus(model, onlineStatus)
+    await updateLiveMessages(model, buildLiveText(modelLink, safeModelName, onlineStatus, now), onlineStatus.online_since ?? now)
+    return
+  }
+
+  // Model looks offline - keep the session open until that's confirmed, so a
+  // dropped stream that comes straight back doesn't send OFFLINE + ONLINE
+  const offlineSince = storedStatus?.offline_since ?? now
+  const offlineChecks = (storedStatus?.offline_checks ?? 0) + 1
+  if (storedStatus && offlineChecks < OFFLINE_CONFIRM_CHECKS && now - offlineSince < OFFLINE_CONFIRM_MS) {
+    console.log(`⏳ ${model} looks offline (${offlineChecks}/${OFFLINE_CONFIRM_CHECKS} checks), waiting to confirm`)
+    await db.updateModelStatus(model, {
+      ...storedStatus,
+      offline_since: offlineSince,
+      offline_checks: offlineChecks,
+    })
+    return
+  }
+
+  // Offline confirmed - end the session and notify
+  const newStatusData: db.ModelStatus = {
+    status: "offline",
+    online_since: null,
+    notified_users: [],
+    last_notification_time: null,
+    snapshot,
+  }
+
+  let durationText = ""
+  if (storedStatus?.online_since) {
+    const duration = sessionMsFor(storedStatus, offlineSince)
+    const reconnects = storedStatus.reconnects ?? 0
+    const reconnectText = reconnects > 0 ? `, reconnected ${reconnects}x` : ""
+    durationText = ` (Online for ${formatDuration(duration)}${reconnectText})`
+  }
+
+  const message = `❌ <a href="${modelLink}">${safeModelName}</a> is now <b>OFFLINE</b>.${durationText}`
+  
+  // Update status first
+  await db.updateModelStatus(model, newStatusData)
+  if (storedStatus?.online_since) {
+    await db.recordSession(model, { started_at: storedStatus.online_since, ended_at: offlineSince })
+  }
+  
+  // Live messages turn into the session summary instead of a new message
+  const endedText = `⚫ <a href="${modelLink}">${safeModelName}</a> was online ${formatDuration(sessionMsFor(storedStatus, offlineSince))}.`
+  const finishedUsers = await updateLiveMessages(model, endedText, storedStatus?.online_since ?? null, true)
+  
+  // Send notifications to everyone else who wants offline messages
+  const recipients = (await filterByEvent(model, subscribers, "offline")).filter(id => !finishedUsers.includes(id))
+  console.log(`📢 Notifying ${recipients.length} subscribers about ${model} going offline`)
+  const sessionMs = storedStatus?.online_since ? sessionMsFor(storedStatus, offlineSince) : null
+  await sendNotifications(recipients, message, model, "offline", { durationMs: sessionMs })
+}
+
+// Session length up to the first offline check of the gap that ended it
+function sessionMsFor(storedStatus: db.ModelStatus | null, offlineSince: number): number {
+  return storedStatus?.online_since ? offlineSince - storedStatus.online_since : 0
+}
+
+// Builds the text of a live-updating message for a running session
+function buildLiveText(modelLink: string, safeModelName: string, status: db.ModelStatus, now: number): string {
+  const name = `<a href="${modelLink}">${safeModelName}</a>`
+  const onlineFor = formatDuration(now - (status.online_since ?? now))
+  const viewers = status.snapshot?.num_viewers
+  const viewerText = typeof viewers === "number" ? `, ${viewers} viewers` : ""
+
+  switch (status.status) {
+    case "public":
+      return `🟢 ${name} <b>ONLINE</b> for ${onlineFor}${viewerText}`
+    case "away":
+      return `💤 ${name} is away, online for ${onlineFor}${viewerText}`
+    default:
+      return `🟢 ${name} in a <b>${SHOW_LABELS[status.status as Exclude<RoomState, "offline">]}</b>, online for ${onlineFor}${viewerText}`
+  }
+}
+
+// Queues an edit of every live message for a model's session to the given
+// text; the outbox paces them with everything else. With `finish`, the
+// entries are removed. Messages of older sessions are dropped. Returns the
+// users whose message was updated.
+async function updateLiveMessages(model: string, text: string, sessionStart: number | null, finish = false): Promise<number[]> {
+  const updated: number[] = []
+  const messages = await db.getLiveMessages(model)
+  const keyboard = { inline_keyboard: (await buildNotificationKeyboard(model)).inline_keyboard }
+
+  for (const [chatId, live] of messages) {
+    if (live.session_start !== sessionStart) {
+      await db.deleteLiveMessage(model, chatId)
+      continue
+    }
+
+    try {
+      // Stored before queueing, so older edits still in the queue are dropped
+      if (finish) {
+        await db.deleteLiveMessage(model, chatId)
+      } else if (live.text !== text) {
+        await db.setLiveMessage(model, chatId, { ...live, text })
+      }
+      if (live.text !== text || finish) {
+        await enqueueLiveEdit(chatId, model, live.message_id, text, keyboard, finish)
+      }
+      updated.push(chatId)
+    } catch (error) {
+      console.error(`Failed to queue live message update for ${chatId}:`, error)
+    }
+  }
+
+  return updated
+}
+
+const SHOW_LABELS: Record<Exclude<RoomState, "offline">, string> = {
+  public: "public show",
+  private: "private show",
+  group: "group show",
+  away: "away",
+  hidden: "hidden show",
+}
+
+// Builds the message for a show change while the model stays online
+function buildTransitionMessage(modelLink: string, safeModelName: string, currentState: RoomState, prevState: RoomState): string {
+  const name = `<a href="${modelLink}">${safeModelName}</a>`
+  switch (currentState) {
+    case "private":
+      return `🔒 ${name} started a <b>private show</b>.`
+    case "group":
+      return `👥 ${name} started a <b>group show</b>.`
+    case "away":
+      return `💤 ${name} is <b>away</b>.`
+    case "hidden":
+      return `🙈 ${name} started a <b>hidden show</b>.`
+    default: {
+      const ended = prevState === "away" ? "is back" : `ended the ${SHOW_LABELS[prevState as Exclude<RoomState, "offline">]}`
+      return `🎭 ${name} ${ended} and is <b>PUBLIC</b> again!`
+    }
+  }
+}
+
+// Keeps only the users who opted in to messages for the given event, with
+// a subscription's own preferences and its tags taking precedence over the
+// user's settings
+async function filterByEvent(model: string, userIds: number[], event: db.StatusEvent): Promise<number[]> {
+  const effective = await db.getEffectivePrefsMany(model, userIds)
+  return userIds.filter(id => {
+    const prefs = effective.get(id)
+    return prefs !== undefined && db.wantsEvent(prefs, event)
+  })
+}
+
+// Helper function to check whether a user is inside their quiet hours
+export function isInQuietHours(settings: db.UserSettings, now: Date): boolean {
+  if (!settings.quiet_hours) return false
+  const localMinutes = getLocalMinutes(now, settings.timezone)
+  return isWithinWindow(localMinutes, settings.quiet_hours.start, settings.quiet_hours.end)
+}
+
+interface NotificationOptions {
+  durationMs?: number | null // Session length, for offline notifications
+  live?: { sessionStart: number; text: string } // Sent instead to users who use live messages
+  photo?: { sessionStart: number; url: string } // Room preview for users who want photos
+}
+
+// Helper function to queue notifications with deduplication. Delivery,
+// pacing and retries are up to the outbox. Users in their quiet hours get
+// the notification queued for a summary instead.
+export async function sendNotifications(
+  userIds: number[],
+  message: string,
+  modelName: string,
+  notificationType: db.NotificationType,
+  options: NotificationOptions = {},
+) {
+  let queuedCount = 0
+  let skippedCount = 0
+  let deferredCount = 0
+  let digestCount = 0
+  let snoozedCount = 0
+  const settings = await db.getUserSettingsMany(userIds)
+  const effective = await db.getEffectivePrefsMany(modelName, userIds)
+  const keyboard = { inline_keyboard: (await buildNotificationKeyboard(modelName)).inline_keyboard }
+  const now = new Date()
+  
+  for (const chatId of userIds) {
+    try {
+      // Digest users (or tags) get a summary instead; warnings still go out right away
+      const userSettings = settings.get(chatId)
+      const delivery = effective.get(chatId)?.delivery ?? "realtime"
+      if (delivery !== "realtime" && notificationType !== "not_found") {
+        digestCount++
+        continue
+      }
+
+      // Snoozed from a notification button
+      if (notificationType !== "not_found" && await db.isSnoozed(chatId, modelName)) {
+        snoozedCount++
+        continue
+      }
+
+      // Check for recent notification to prevent spam
+      const isRecent = await db.isRecentNotification(chatId, modelName, notificationType)
+      if (isRecent) {
+        skippedCount++
+        continue
+      }
+      
+      // Hold it back until quiet hours end
+      if (userSettings && isInQuietHours(userSettings, now)) {
+        await db.addPendingNotification(chatId, {
+          model: modelName,
+          type: notificationType,
+          message,
+          duration_ms: options.durationMs ?? null,
+          created_at: now.getTime(),
+        })
+        await db.recordNotification(chatId, modelName, notificationType)
+        deferredCount++
+        continue
+      }
+      
+      // Live message users get one that later checks keep up to date;
+      // that is only possible for text, so they never get the photo
+      const live = options.live && userSettings?.live_message ? options.live : null
+      const photo = !live && options.photo && userSettings?.photo_notifications ? options.photo : null
+      await enqueueNotification({
+        chat_id: chatId,
+        model: modelName,
+        type: notificationType,
+        text: live ? live.text : message,
+        reply_markup: keyboard,
+        live_session_start: live ? live.sessionStart : undefined,
+        photo: photo ? { url: photo.url, session_start: photo.sessionStart } : undefined,
+      })
+      
+      // Record queued notification
+      await db.recordNotification(chatId, modelName, notificationType)
+      queuedCount++
+      
+    } catch (error) {
+      // Don't let one user's error stop the entire process
+      console.error(`Failed to queue notification for ${chatId}:`, error)
+    }
+  }
+  
+  console.log(
+    `📊 ${modelName}: Queued ${queuedCount}, skipped ${skippedCount} (recent notifications), ` +
+    `deferred ${deferredCount} (quiet hours), ${digestCount} in digest mode, ${snoozedCount} snoozed`,
+  )
+}
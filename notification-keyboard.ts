@@ -0,0 +1,23 @@
+// notification-keyboard.ts
+//
+// This module builds the action buttons attached to notifications about a
+// model. It is kept apart from the bot UI so the status monitor can attach
+// the buttons without loading the command and callback handlers.
+
+import { InlineKeyboard } from "https://deno.land/x/grammy@v1.24.0/mod.ts"
+import * as db from "./database.ts"
+import { roomUrlFor } from "./status-provider.ts"
+
+// Buttons carry a model ref rather than the model key, which may not fit in
+// the 64 bytes of callback data
+export async function buildNotificationKeyboard(modelKey: string): Promise<InlineKeyboard> {
+  const keyboard = new InlineKeyboard()
+  const roomUrl = roomUrlFor(modelKey)
+  if (roomUrl) keyboard.url("▶️ Open room", roomUrl)
+  const ref = await db.getModelRef(modelKey)
+  return keyboard
+    .text("😴 Snooze 24h", `snooze_${ref}`)
+    .row()
+    .text("🔕 Mute offline alerts", `muteoff_${ref}`)
+    .text("➖ Unsubscribe", `unsub_${ref}`)
+}
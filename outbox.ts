@@ -0,0 +1,302 @@
+// outbox.ts
+//
+// This module delivers everything the bot sends on its own (notifications,
+// live message edits, summaries, digests and admin alerts) through a durable
+// outbox built on the Deno KV queue. Sends are paced to Telegram's limits (30
+// messages per second overall, 1 per second per private chat, about 20 a
+// minute per group or channel), 429 responses are retried after the wait
+// Telegram asks for, and failures that won't go away end up as dead letters.
+// Every message except live edits gets a delivery status record.
+
+import type { Api } from "https://deno.land/x/grammy@v1.24.0/mod.ts"
+import type { Message } from "https://deno.land/x/grammy@v1.24.0/types.ts"
+import * as db from "./database.ts"
+import { acquireToken, penalize, type RateLimit } from "./rate-limiter.ts"
+import {
+  getMigratedChatId,
+  getTelegramRetryAfter,
+  isMessageNotModified,
+  isMessageUneditable,
+  isPermanentTelegramError,
+  isUserBlocked,
+  sleep,
+} from "./utils.ts"
+
+const GLOBAL_BUCKET = "telegram"
+const GLOBAL_LIMIT: RateLimit = { capacity: 30, refillPerSecond: 30 }
+const CHAT_LIMIT: RateLimit = { capacity: 1, refillPerSecond: 1 }
+// Groups and channels (negative chat ids) get about 20 messages a minute
+const GROUP_LIMIT: RateLimit = { capacity: 3, refillPerSecond: 20 / 60 }
+
+const MAX_ATTEMPTS = 6
+const MAX_BACKOFF_MS = 5 * 60 * 1000
+
+// How long a delivery waits for another one's upload of the same room photo
+const PHOTO_WAIT_MS = 10_000
+
+type NewOutboxMessage = Omit<db.OutboxMessage, "id" | "attempts" | "created_at" | "edit">
+
+/**
+ * Queues a message for delivery. A message split with splitMessage passes
+ * its first part as the text and the others as continued.
+ * @returns The id of its delivery status record.
+ */
+export async function enqueueNotification(notification: NewOutboxMessage): Promise<string> {
+  const message: db.OutboxMessage = {
+    ...notification,
+    id: crypto.randomUUID(),
+    attempts: 0,
+    created_at: Date.now(),
+  }
+
+  await setStatus(message, statusFor(message, "queued"))
+  await db.enqueueOutbox(message)
+  return message.id
+}
+
+/**
+ * Queues an edit of a live message. The caller stores the new text on the
+ * live message record first: an edit whose text is no longer the stored one
+ * has been overtaken by a newer edit and is dropped.
+ * @param finish The session ended; the record is already gone, so the edit
+ * is always sent.
+ */
+export async function enqueueLiveEdit(
+  chatId: number,
+  model: string,
+  messageId: number,
+  text: string,
+  replyMarkup: db.OutboxMessage["reply_markup"],
+  finish: boolean,
+): Promise<void> {
+  await db.enqueueOutbox({
+    id: crypto.randomUUID(),
+    chat_id: chatId,
+    model,
+    type: "live_update",
+    text,
+    reply_markup: replyMarkup,
+    edit: { message_id: messageId, finish },
+    attempts: 0,
+    created_at: Date.now(),
+  })
+}
+
+/**
+ * Starts delivering queued notifications. Must be called once at startup,
+ * as Deno only delivers queue messages to listeners registered then.
+ */
+export function startOutboxWorker(api: Api): void {
+  db.listenOutbox((message) => deliver(api, message))
+  console.log("📮 Notification outbox worker started")
+}
+
+async function deliver(api: Api, message: db.OutboxMessage): Promise<void> {
+  // A newer edit of the same live message makes this one pointless
+  if (message.edit && !message.edit.finish && message.model) {
+    const live = await db.getLiveMessage(message.model, message.chat_id)
+    if (live?.message_id !== message.edit.message_id || live.text !== message.text) return
+  }
+
+  // Wait our turn; if that takes too long, put it back instead of holding the
+  // queue. The chat's token comes first, so a busy chat doesn't use up the
+  // bot-wide budget on sends that then don't happen.
+  const allowed = await acquireToken(chatBucket(message.chat_id), chatLimit(message.chat_id), 5_000) &&
+    await acquireToken(GLOBAL_BUCKET, GLOBAL_LIMIT, 10_000)
+  if (!allowed) {
+    await db.enqueueOutbox(message, 1000)
+    return
+  }
+
+  const attempts = message.attempts + 1
+
+  try {
+    const sent = message.edit
+      ? await editLive(api, message, message.edit)
+      : message.photo && message.model
+      ? await sendPhoto(api, message, message.model, message.photo)
+      : await sendText(api, message)
+
+    if (message.live_session_start !== undefined && message.model) {
+      await db.setLiveMessage(message.model, message.chat_id, {
+        message_id: sent.message_id,
+        session_start: message.live_session_start,
+        text: message.text,
+      })
+    }
+
+    await setStatus(message, {
+      ...statusFor(message, "sent"),
+      attempts,
+      message_id: sent.message_id,
+    })
+
+    // The next part is only queued now, so the parts can't overtake each other
+    if (message.continued && message.continued.length > 0) {
+      const [text, ...continued] = message.continued
+      await enqueueNotification({
+        chat_id: message.chat_id,
+        model: message.model,
+        type: message.type,
+        text,
+        disable_link_preview: message.disable_link_preview,
+        continued,
+      })
+    }
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error)
+
+    if (isUserBlocked(error)) {
+      console.log(`🧹 Removing blocked user ${message.chat_id}`)
+      await db.removeUserAndAllSubscriptions(message.chat_id)
+      await deadLetter(message, attempts, reason)
+      return
+    }
+
+    const migratedChatId = getMigratedChatId(error)
+    if (migratedChatId !== null) {
+      // The group became a supergroup - move it over and send there instead
+      await db.migrateChat(message.chat_id, migratedChatId)
+      await db.enqueueOutbox({ ...message, chat_id: migratedChatId, attempts })
+      return
+    }
+
+    const retryAfterMs = getTelegramRetryAfter(error)
+    if (retryAfterMs !== null) {
+      // A 429 can be this chat's limit or the bot-wide one, and Telegram
+      // doesn't say which - hold back both
+      await penalize(chatBucket(message.chat_id), retryAfterMs)
+      await penalize(GLOBAL_BUCKET, retryAfterMs)
+    }
+
+    if (retryAfterMs === null && isPermanentTelegramError(error)) {
+      console.error(`❌ Notification ${message.id} to ${message.chat_id} failed permanently:`, error)
+      await deadLetter(message, attempts, reason)
+      return
+    }
+
+    if (attempts >= MAX_ATTEMPTS) {
+      console.error(`❌ Giving up on notification ${message.id} to ${message.chat_id} after ${attempts} attempts`)
+      await deadLetter(message, attempts, reason)
+      return
+    }
+
+    const delayMs = retryAfterMs ?? Math.min(1000 * 2 ** attempts, MAX_BACKOFF_MS)
+    console.warn(`🔁 Retrying notification ${message.id} to ${message.chat_id} in ${Math.round(delayMs / 1000)}s: ${reason}`)
+    await setStatus(message, { ...statusFor(message, "retrying"), attempts, error: reason })
+    await db.enqueueOutbox({ ...message, attempts }, delayMs)
+  }
+}
+
+function sendText(api: Api, message: db.OutboxMessage): Promise<Message.TextMessage> {
+  return api.sendMessage(message.chat_id, message.text, {
+    parse_mode: "HTML",
+    reply_markup: message.reply_markup,
+    link_preview_options: message.disable_link_preview ? { is_disabled: true } : undefined,
+  })
+}
+
+// Edits a live message in place. A message that can no longer be edited
+// stops being tracked; if the session is over, its summary is sent as a new
+// message instead so the user still hears about it.
+async function editLive(
+  api: Api,
+  message: db.OutboxMessage,
+  edit: NonNullable<db.OutboxMessage["edit"]>,
+): Promise<{ message_id: number }> {
+  try {
+    await api.editMessageText(message.chat_id, edit.message_id, message.text, {
+      parse_mode: "HTML",
+      reply_markup: message.reply_markup,
+    })
+    return { message_id: edit.message_id }
+  } catch (error) {
+    if (isMessageNotModified(error)) return { message_id: edit.message_id }
+    if (!isMessageUneditable(error)) throw error
+
+    if (message.model) await db.deleteLiveMessage(message.model, message.chat_id)
+    return edit.finish ? await sendText(api, message) : { message_id: edit.message_id }
+  }
+}
+
+// Sends the notification as the caption of the room photo. One delivery
+// uploads the image and caches its Telegram file id; the others wait for that
+// rather than making Telegram fetch the same image again. Falls back to text
+// if the image can't be used.
+async function sendPhoto(
+  api: Api,
+  message: db.OutboxMessage,
+  model: string,
+  photo: NonNullable<db.OutboxMessage["photo"]>,
+): Promise<Message> {
+  let cachedFileId = await db.getSessionPhoto(model, photo.session_start)
+  const uploading = !cachedFileId && await db.claimSessionPhotoUpload(model, photo.session_start)
+  if (!cachedFileId && !uploading) {
+    // If the other upload doesn't finish in time, this one uploads too
+    cachedFileId = await waitForSessionPhoto(model, photo.session_start)
+  }
+
+  try {
+    const sent = await api.sendPhoto(message.chat_id, cachedFileId ?? photo.url, {
+      caption: message.text,
+      parse_mode: "HTML",
+      reply_markup: message.reply_markup,
+    })
+    if (!cachedFileId && sent.photo.length > 0) {
+      // The last size is the largest
+      await db.setSessionPhoto(model, photo.session_start, sent.photo[sent.photo.length - 1].file_id)
+    }
+    return sent
+  } catch (error) {
+    // These would fail the same way for a text message
+    if (isUserBlocked(error) || getMigratedChatId(error) !== null || getTelegramRetryAfter(error) !== null) {
+      throw error
+    }
+    console.warn(`🖼 Photo for ${model} unavailable, sending text instead:`, error)
+    return await sendText(api, message)
+  } finally {
+    if (uploading) await db.releaseSessionPhotoUpload(model, photo.session_start)
+  }
+}
+
+async function waitForSessionPhoto(model: string, sessionStart: number): Promise<string | null> {
+  const deadline = Date.now() + PHOTO_WAIT_MS
+  while (Date.now() < deadline) {
+    await sleep(500)
+    const fileId = await db.getSessionPhoto(model, sessionStart)
+    if (fileId) return fileId
+  }
+  return null
+}
+
+async function deadLetter(message: db.OutboxMessage, attempts: number, reason: string): Promise<void> {
+  await db.addDeadLetter({ ...message, attempts }, reason)
+  await setStatus(message, { ...statusFor(message, "dead"), attempts, error: reason })
+}
+
+// Live edits go out every minute per session, so they get no status record
+async function setStatus(message: db.OutboxMessage, status: db.DeliveryStatus): Promise<void> {
+  if (message.edit) return
+  await db.setDeliveryStatus(message.id, status)
+}
+
+function statusFor(message: db.OutboxMessage, state: db.DeliveryState): db.DeliveryStatus {
+  return {
+    state,
+    chat_id: message.chat_id,
+    model: message.model,
+    type: message.type,
+    attempts: message.attempts,
+    updated_at: Date.now(),
+    message_id: null,
+    error: null,
+  }
+}
+
+function chatBucket(chatId: number): string {
+  return `${GLOBAL_BUCKET}:chat:${chatId}`
+}
+
+function chatLimit(chatId: number): RateLimit {
+  return chatId < 0 ? GROUP_LIMIT : CHAT_LIMIT
+}
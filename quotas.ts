@@ -0,0 +1,64 @@
+// quotas.ts
+//
+// This module decides how many models a chat may follow. Every chat is on
+// the default tier until an admin moves it to another one. The limits can be
+// changed with SUBSCRIPTION_TIERS, e.g. "default:50,plus:200,unlimited:0",
+// where 0 means no limit.
+
+import * as db from "./database.ts"
+import { parseTierLimits } from "./utils.ts"
+
+export const DEFAULT_TIER = "default"
+
+export const TIER_LIMITS = parseTierLimits(Deno.env.get("SUBSCRIPTION_TIERS"), {
+  [DEFAULT_TIER]: 50,
+  plus: 250,
+  unlimited: Infinity,
+})
+
+// Chats using at least this share of their limit show up in the stats
+const NEAR_LIMIT_RATIO = 0.9
+
+export interface Quota {
+  tier: string
+  limit: number // Infinity when there's no limit
+  used: number
+}
+
+// A tier that was removed from the configuration falls back to the default
+function limitFor(tier: string): number {
+  return TIER_LIMITS.get(tier) ?? TIER_LIMITS.get(DEFAULT_TIER)!
+}
+
+export async function getQuota(chatId: number): Promise<Quota> {
+  const [tier, used] = await Promise.all([db.getUserTier(chatId), db.getSubscriptionCount(chatId)])
+  const name = tier ?? DEFAULT_TIER
+  return { tier: name, limit: limitFor(name), used }
+}
+
+export function remainingQuota(quota: Quota): number {
+  return Math.max(quota.limit - quota.used, 0)
+}
+
+// e.g. "48/50 (default)"
+export function formatQuota(quota: Quota): string {
+  const limit = Number.isFinite(quota.limit) ? String(quota.limit) : "∞"
+  return `${quota.used}/${limit} (${quota.tier})`
+}
+
+/**
+ * Chats that are near or over their limit, the fullest first.
+ */
+export async function getQuotaReport(): Promise<{ chatId: number; quota: Quota }[]> {
+  const [counts, tiers] = await Promise.all([db.countSubscriptionsByChat(), db.listUserTiers()])
+
+  const report: { chatId: number; quota: Quota }[] = []
+  for (const [chatId, used] of counts) {
+    const tier = tiers.get(chatId) ?? DEFAULT_TIER
+    const limit = limitFor(tier)
+    if (used >= limit * NEAR_LIMIT_RATIO) {
+      report.push({ chatId, quota: { tier, limit, used } })
+    }
+  }
+  return report.sort((a, b) => b.quota.used / b.quota.limit - a.quota.used / a.quota.limit)
+}
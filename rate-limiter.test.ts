@@ -0,0 +1,65 @@
+// rate-limiter.test.ts
+//
+// Exercises the KV token bucket, including the blocks set after a 429,
+// against an in-memory KV database. Run with:
+//
+//   deno test --unstable-kv --allow-env rate-limiter.test.ts
+
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts"
+import type { TokenBucket } from "./database.ts"
+
+// The database is opened when it's first imported, so this has to come first
+Deno.env.set("KV_PATH", ":memory:")
+const db = await import("./database.ts")
+const { acquireToken, penalize } = await import("./rate-limiter.ts")
+
+async function getBucket(name: string): Promise<TokenBucket | null> {
+  return (await db.kv.get<TokenBucket>(["rate_limits", name])).value
+}
+
+const testOptions = { sanitizeOps: false, sanitizeResources: false }
+
+Deno.test("a new bucket allows a full burst", testOptions, async () => {
+  const limit = { capacity: 3, refillPerSecond: 0.01 }
+  assertEquals(await acquireToken("burst", limit, 0), true)
+  assertEquals(await acquireToken("burst", limit, 0), true)
+  assertEquals(await acquireToken("burst", limit, 0), true)
+  assertEquals(await acquireToken("burst", limit, 0), false)
+})
+
+Deno.test("an empty bucket gives up when the wait is too long", testOptions, async () => {
+  const limit = { capacity: 1, refillPerSecond: 0.1 }
+  assertEquals(await acquireToken("slow", limit, 0), true)
+
+  const started = Date.now()
+  assertEquals(await acquireToken("slow", limit, 1000), false)
+  assertEquals(Date.now() - started < 1000, true)
+})
+
+Deno.test("an empty bucket waits for the refill", testOptions, async () => {
+  const limit = { capacity: 1, refillPerSecond: 20 }
+  assertEquals(await acquireToken("refill", limit, 0), true)
+  assertEquals(await acquireToken("refill", limit, 1000), true)
+})
+
+Deno.test("a penalized bucket hands out no tokens until the block ends", testOptions, async () => {
+  const limit = { capacity: 5, refillPerSecond: 100 }
+  await penalize("blocked", 60_000)
+
+  const bucket = await getBucket("blocked")
+  assertEquals(bucket?.tokens, 0)
+  assertEquals(await acquireToken("blocked", limit, 1000), false)
+})
+
+Deno.test("a short penalty doesn't cut a longer block short", testOptions, async () => {
+  await penalize("extended", 60_000)
+  const blockedUntil = (await getBucket("extended"))?.blocked_until
+  await penalize("extended", 1000)
+  assertEquals((await getBucket("extended"))?.blocked_until, blockedUntil)
+})
+
+Deno.test("the bucket is usable again once the block has passed", testOptions, async () => {
+  const limit = { capacity: 5, refillPerSecond: 100 }
+  await penalize("lifted", 100)
+  assertEquals(await acquireToken("lifted", limit, 2000), true)
+})
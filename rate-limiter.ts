@@ -0,0 +1,76 @@
+// rate-limiter.ts
+//
+// This module implements a token bucket persisted in Deno KV. Every isolate
+// and every concurrent caller draws from the same bucket through atomic
+// updates, so parallel batches can't exceed the limit and the state
+// survives cold starts. Upstream 429 responses block the bucket for as long
+// as the upstream asks.
+
+import * as db from "./database.ts"
+import { sleep } from "./utils.ts"
+
+export interface RateLimit {
+  capacity: number // Maximum burst size
+  refillPerSecond: number // Sustained request rate
+}
+
+/**
+ * Waits for a token from the named bucket.
+ * @param name The bucket name, shared by everyone calling the same upstream.
+ * @param limit The bucket's capacity and refill rate.
+ * @param maxWaitMs Give up after waiting this long.
+ * @returns true if a token was taken, false if the wait would be too long.
+ */
+export async function acquireToken(name: string, limit: RateLimit, maxWaitMs = 20_000): Promise<boolean> {
+  const deadline = Date.now() + maxWaitMs
+
+  while (true) {
+    let granted = false
+    let waitMs = 0
+
+    const committed = await db.updateTokenBucket(name, (bucket) => {
+      const now = Date.now()
+      const elapsedSeconds = bucket ? (now - bucket.updated_at) / 1000 : 0
+      const tokens = bucket
+        ? Math.min(limit.capacity, bucket.tokens + elapsedSeconds * limit.refillPerSecond)
+        : limit.capacity
+      const blockedUntil = bucket?.blocked_until ?? 0
+
+      if (now < blockedUntil) {
+        granted = false
+        waitMs = blockedUntil - now
+        return null
+      }
+      if (tokens < 1) {
+        granted = false
+        waitMs = ((1 - tokens) / limit.refillPerSecond) * 1000
+        return null
+      }
+
+      granted = true
+      return { tokens: tokens - 1, updated_at: now, blocked_until: blockedUntil }
+    })
+
+    if (committed && granted) return true
+
+    // Add jitter so waiting callers don't all retry at the same moment
+    const delay = Math.max(waitMs, 50) + Math.random() * 100
+    if (Date.now() + delay > deadline) return false
+    await sleep(delay)
+  }
+}
+
+/**
+ * Blocks the named bucket, e.g. after a 429 response with Retry-After.
+ * @param name The bucket name.
+ * @param blockMs How long no tokens should be handed out.
+ */
+export async function penalize(name: string, blockMs: number): Promise<void> {
+  const blockedUntil = Date.now() + blockMs
+  console.warn(`🚦 Rate limit bucket ${name} blocked for ${Math.round(blockMs / 1000)}s`)
+
+  await db.updateTokenBucket(name, (bucket) => {
+    if (bucket && bucket.blocked_until >= blockedUntil) return null
+    return { tokens: 0, updated_at: Date.now(), blocked_until: blockedUntil }
+  })
+}
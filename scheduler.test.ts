@@ -0,0 +1,81 @@
+// scheduler.test.ts
+//
+// Checks the polling intervals the scheduler hands out and the order in
+// which due models are picked, against an in-memory KV database. Run with:
+//
+//   deno test --unstable-kv --allow-env scheduler.test.ts
+
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts"
+import type { ModelSchedule } from "./database.ts"
+
+// The database is opened when it's first imported, so this has to come first
+Deno.env.set("KV_PATH", ":memory:")
+const db = await import("./database.ts")
+const { computeCheckInterval, getDueModels } = await import("./scheduler.ts")
+
+const MINUTE_MS = 60 * 1000
+const HOUR_MS = 60 * MINUTE_MS
+const DAY_MS = 24 * HOUR_MS
+
+// 2024-01-01 12:00 UTC
+const NOW = Date.UTC(2024, 0, 1, 12)
+
+function schedule(changes: Partial<ModelSchedule> = {}): ModelSchedule {
+  return {
+    next_check_at: 0,
+    last_checked_at: NOW,
+    last_online_at: null,
+    online_hours: new Array(24).fill(0),
+    ...changes,
+  }
+}
+
+const testOptions = { sanitizeOps: false, sanitizeResources: false }
+
+Deno.test("online models are checked every minute", () => {
+  assertEquals(computeCheckInterval(schedule(), "public", 0, NOW), MINUTE_MS)
+  assertEquals(computeCheckInterval(null, "private", 0, NOW), MINUTE_MS)
+})
+
+Deno.test("models never seen online get the longest interval", () => {
+  assertEquals(computeCheckInterval(null, "offline", 0, NOW), 30 * MINUTE_MS)
+  assertEquals(computeCheckInterval(schedule(), "offline", 0, NOW), 30 * MINUTE_MS)
+})
+
+Deno.test("offline interval grows with time since last online", () => {
+  const since = (ms: number) => computeCheckInterval(schedule({ last_online_at: NOW - ms }), "offline", 0, NOW)
+  assertEquals(since(30 * MINUTE_MS), MINUTE_MS)
+  assertEquals(since(12 * HOUR_MS), 3 * MINUTE_MS)
+  assertEquals(since(3 * DAY_MS), 5 * MINUTE_MS)
+  assertEquals(since(20 * DAY_MS), 15 * MINUTE_MS)
+  assertEquals(since(60 * DAY_MS), 30 * MINUTE_MS)
+})
+
+Deno.test("popular models are checked more often, but not under a minute", () => {
+  const recent = schedule({ last_online_at: NOW - 3 * DAY_MS })
+  assertEquals(computeCheckInterval(recent, "offline", 10, NOW), 2.5 * MINUTE_MS)
+  assertEquals(computeCheckInterval(recent, "offline", 50, NOW), (5 * MINUTE_MS) / 3)
+
+  const justLeft = schedule({ last_online_at: NOW - 10 * MINUTE_MS })
+  assertEquals(computeCheckInterval(justLeft, "offline", 50, NOW), MINUTE_MS)
+})
+
+Deno.test("usual streaming hours shorten the interval", () => {
+  const onlineHours = new Array(24).fill(0)
+  onlineHours[12] = 20
+  onlineHours[13] = 20
+  const habitual = schedule({ online_hours: onlineHours })
+
+  assertEquals(computeCheckInterval(habitual, "offline", 0, NOW), 2 * MINUTE_MS)
+  assertEquals(computeCheckInterval(habitual, "offline", 0, NOW + 6 * HOUR_MS), 30 * MINUTE_MS)
+})
+
+Deno.test("due models come most overdue first", testOptions, async () => {
+  await db.setModelSchedule("fake:later", schedule({ next_check_at: NOW + HOUR_MS }))
+  await db.setModelSchedule("fake:overdue", schedule({ next_check_at: NOW - HOUR_MS }))
+  await db.setModelSchedule("fake:due", schedule({ next_check_at: NOW - MINUTE_MS }))
+  await db.setModelSchedule("fake:slack", schedule({ next_check_at: NOW + 2000 }))
+
+  const due = await getDueModels(["fake:later", "fake:due", "fake:new", "fake:slack", "fake:overdue"], NOW)
+  assertEquals(due, ["fake:new", "fake:overdue", "fake:due", "fake:slack"])
+})
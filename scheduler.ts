@@ -0,0 +1,125 @@
+// scheduler.ts
+//
+// This module decides how often each model is polled. Instead of checking
+// every model every minute, each one gets a `next_check_at` based on how many
+// people follow it, how recently it was online and the hours of the day it
+// usually streams. Every model is still looked up in the bulk listing each
+// minute; only the ones it can't settle wait until they're due for a request
+// of their own.
+
+import * as db from "./database.ts"
+import type { RoomState } from "./status-provider.ts"
+
+const MINUTE_MS = 60 * 1000
+const HOUR_MS = 60 * MINUTE_MS
+const DAY_MS = 24 * HOUR_MS
+
+const MIN_INTERVAL_MS = 1 * MINUTE_MS
+const MAX_INTERVAL_MS = 30 * MINUTE_MS
+
+// Polling interval for offline models, by time since they were last online
+const RECENCY_INTERVALS: { within: number; interval: number }[] = [
+  { within: 1 * HOUR_MS, interval: 1 * MINUTE_MS },
+  { within: 1 * DAY_MS, interval: 3 * MINUTE_MS },
+  { within: 7 * DAY_MS, interval: 5 * MINUTE_MS },
+  { within: 30 * DAY_MS, interval: 15 * MINUTE_MS },
+]
+
+// Hours in which a model streams at least this many times its average
+// hourly activity count as its usual hours
+const PEAK_HOUR_FACTOR = 1.5
+const PEAK_HOUR_INTERVAL_MS = 2 * MINUTE_MS
+
+// Halve the activity history once it grows past this many observations so
+// that recent habits outweigh old ones
+const HISTORY_DECAY_THRESHOLD = 10_000
+
+/**
+ * Works out how long to wait before checking a model again.
+ * @param schedule The model's stored schedule, if any.
+ * @param state The state just observed.
+ * @param subscriberCount How many users follow the model.
+ * @param now The current time.
+ */
+export function computeCheckInterval(
+  schedule: db.ModelSchedule | null,
+  state: RoomState,
+  subscriberCount: number,
+  now: number,
+): number {
+  // Online models stay close to real time so grace periods and show
+  // changes are picked up promptly
+  if (state !== "offline") return MIN_INTERVAL_MS
+
+  const lastOnlineAt = schedule?.last_online_at
+  let interval = MAX_INTERVAL_MS
+  if (lastOnlineAt) {
+    const sinceOnline = now - lastOnlineAt
+    const tier = RECENCY_INTERVALS.find((t) => sinceOnline < t.within)
+    if (tier) interval = tier.interval
+  }
+
+  // Popular models are worth checking more often
+  if (subscriberCount >= 50) {
+    interval /= 3
+  } else if (subscriberCount >= 10) {
+    interval /= 2
+  }
+
+  // Check more often during the hours the model usually streams
+  if (schedule && isPeakHour(schedule.online_hours, new Date(now).getUTCHours())) {
+    interval = Math.min(interval, PEAK_HOUR_INTERVAL_MS)
+  }
+
+  return Math.max(MIN_INTERVAL_MS, Math.min(MAX_INTERVAL_MS, interval))
+}
+
+function isPeakHour(onlineHours: number[], hour: number): boolean {
+  const total = onlineHours.reduce((sum, count) => sum + count, 0)
+  if (total === 0) return false
+  return onlineHours[hour] >= (total / 24) * PEAK_HOUR_FACTOR
+}
+
+/**
+ * Returns the models from the queue that are due for a check. Models that
+ * have never been scheduled are always due.
+ */
+export async function getDueModels(queue: string[], now = Date.now()): Promise<string[]> {
+  const schedules = await db.getModelSchedules(queue)
+  const nextCheckAt = (model: string) => schedules.get(model)?.next_check_at ?? 0
+  // Allow a few seconds of slack so a model isn't pushed back a whole tick
+  // because the cron fired slightly early. The most overdue go first, so a
+  // run that runs out of time doesn't starve the same models every minute.
+  return queue
+    .filter((model) => nextCheckAt(model) <= now + 5000)
+    .sort((a, b) => nextCheckAt(a) - nextCheckAt(b))
+}
+
+/**
+ * Records a completed check and schedules the next one.
+ * @param model The model key.
+ * @param state The state just observed.
+ */
+export async function scheduleNextCheck(model: string, state: RoomState): Promise<void> {
+  const now = Date.now()
+  const schedule = (await db.getModelSchedules([model])).get(model) ?? null
+  const subscriberCount = (await db.getModelSubscribers(model)).length
+
+  const onlineHours = schedule?.online_hours.slice() ?? new Array(24).fill(0)
+  if (state !== "offline") {
+    onlineHours[new Date(now).getUTCHours()]++
+    if (onlineHours.reduce((sum, count) => sum + count, 0) > HISTORY_DECAY_THRESHOLD) {
+      for (let hour = 0; hour < 24; hour++) onlineHours[hour] = Math.floor(onlineHours[hour] / 2)
+    }
+  }
+
+  const updated: db.ModelSchedule = {
+    next_check_at: 0,
+    last_checked_at: now,
+    last_online_at: state !== "offline" ? now : schedule?.last_online_at ?? null,
+    online_hours: onlineHours,
+  }
+  updated.next_check_at = now + computeCheckInterval(updated, state, subscriberCount, now)
+
+  await db.setModelSchedule(model, updated)
+}
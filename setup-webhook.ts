@@ -20,7 +20,7 @@ try {
     headers: { "Content-Type": "application/json" },
     body: JSON.stringify({
       url: webhookEndpoint,
-      allowed_updates: ["message", "callback_query"],
+      allowed_updates: ["message", "callback_query", "channel_post", "my_chat_member", "inline_query"],
     }),
   })
 
@@ -0,0 +1,60 @@
+// status-provider.test.ts
+//
+// Checks how user input and room links are turned into model keys, with the
+// Chaturbate provider and the fake one registered side by side. Run with:
+//
+//   deno test --unstable-kv --allow-env status-provider.test.ts
+
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts"
+import { FakeStatusProvider } from "./fake-provider.ts"
+import { displayModelName, parseModelKey, registerProvider, resolveModelKey, roomUrlFor } from "./status-provider.ts"
+
+// The fetcher opens the database when it's first imported
+Deno.env.set("KV_PATH", ":memory:")
+const { chaturbateProvider } = await import("./api-fetcher.ts")
+
+registerProvider(chaturbateProvider)
+registerProvider(new FakeStatusProvider())
+
+Deno.test("bare usernames belong to the default provider", () => {
+  assertEquals(resolveModelKey("alice"), "chaturbate:alice")
+  assertEquals(resolveModelKey("  @Alice "), "chaturbate:alice")
+  assertEquals(parseModelKey("alice"), { providerId: "chaturbate", username: "alice" })
+})
+
+Deno.test("prefixed keys keep their provider", () => {
+  assertEquals(resolveModelKey("fake:bob"), "fake:bob")
+  assertEquals(resolveModelKey("chaturbate:bob_2"), "chaturbate:bob_2")
+  assertEquals(parseModelKey("fake:bob"), { providerId: "fake", username: "bob" })
+})
+
+Deno.test("unknown providers and invalid usernames are rejected", () => {
+  assertEquals(resolveModelKey(""), null)
+  assertEquals(resolveModelKey("@"), null)
+  assertEquals(resolveModelKey("nowhere:alice"), null)
+  assertEquals(resolveModelKey("ali-ce"), null)
+  assertEquals(resolveModelKey("fake:bo b"), null)
+})
+
+Deno.test("room links are resolved to the room's model", () => {
+  assertEquals(resolveModelKey("https://chaturbate.com/alice/"), "chaturbate:alice")
+  assertEquals(resolveModelKey("chaturbate.com/alice"), "chaturbate:alice")
+  assertEquals(resolveModelKey("https://m.chaturbate.com/Alice/"), "chaturbate:alice")
+  assertEquals(resolveModelKey("https://www.chaturbate.com/p/alice/"), "chaturbate:alice")
+  assertEquals(resolveModelKey("https://chaturbate.com/in/?tour=abc&campaign=xyz&room=alice"), "chaturbate:alice")
+})
+
+Deno.test("site pages and other sites are not rooms", () => {
+  assertEquals(resolveModelKey("https://chaturbate.com/tags/"), null)
+  assertEquals(resolveModelKey("https://chaturbate.com/female-cams/"), null)
+  assertEquals(resolveModelKey("https://chaturbate.com/"), null)
+  assertEquals(resolveModelKey("https://notchaturbate.com/alice/"), null)
+  assertEquals(resolveModelKey("https://example.com/alice/"), null)
+})
+
+Deno.test("names and room links are shown per provider", () => {
+  assertEquals(displayModelName("chaturbate:alice"), "alice")
+  assertEquals(displayModelName("fake:bob"), "bob (Fake)")
+  assertEquals(roomUrlFor("chaturbate:alice"), "https://chaturbate.com/alice/")
+  assertEquals(roomUrlFor("nowhere:alice"), null)
+})
@@ -0,0 +1,191 @@
+// status-provider.ts
+//
+// This module defines the StatusProvider interface that every status source
+// implements, the provider-neutral room types, and the registry the monitor
+// uses to look providers up. Models are identified by "provider:username"
+// keys so the same cron loop can track rooms on several platforms.
+
+import { sanitizeModelName } from "./utils.ts"
+
+/**
+ * The normalized show type derived from the raw `room_status` value.
+ * "unknown" means the fetch failed and nothing can be said about the room.
+ */
+export type ShowType = "public" | "private" | "group" | "away" | "hidden" | "password" | "offline" | "unknown"
+
+/**
+ * A point-in-time view of a model's room as reported by a provider.
+ */
+export interface RoomSnapshot {
+  room_status: string | null // Raw value as sent by the API
+  show_type: ShowType
+  num_viewers: number | null
+  room_subject: string | null
+  tags: string[]
+  age: number | null
+  gender: string | null
+  image_url: string | null // Room preview thumbnail
+  fetched_at: number
+  error: string | null // Why the fetch failed, e.g. "not_found" or "http_503"
+}
+
+/**
+ * Returns true if the model is broadcasting in any form (public or not).
+ */
+export function isOnline(snapshot: RoomSnapshot): boolean {
+  return snapshot.show_type !== "offline" && snapshot.show_type !== "unknown"
+}
+
+/**
+ * Returns true if the room is public and can be watched right now.
+ */
+export function isWatchable(snapshot: RoomSnapshot): boolean {
+  return snapshot.show_type === "public"
+}
+
+/**
+ * The states tracked by the status monitor. Password-protected rooms are
+ * folded into "hidden" since neither can be watched by a regular viewer.
+ */
+export type RoomState = "offline" | "public" | "private" | "group" | "away" | "hidden"
+
+/**
+ * Maps a snapshot onto the monitor's state machine. Returns null when the
+ * snapshot carries no usable status.
+ */
+export function toRoomState(snapshot: RoomSnapshot): RoomState | null {
+  switch (snapshot.show_type) {
+    case "unknown":
+      return null
+    case "password":
+      return "hidden"
+    default:
+      return snapshot.show_type
+  }
+}
+
+/**
+ * Builds a snapshot that carries nothing but a show type and, optionally,
+ * the reason the status could not be read.
+ */
+export function emptySnapshot(showType: ShowType, error: string | null): RoomSnapshot {
+  return {
+    room_status: null,
+    show_type: showType,
+    num_viewers: null,
+    room_subject: null,
+    tags: [],
+    age: null,
+    gender: null,
+    image_url: null,
+    fetched_at: Date.now(),
+    error,
+  }
+}
+
+/**
+ * A source of room statuses for one platform.
+ */
+export interface StatusProvider {
+  id: string // Prefix used in model keys, e.g. "chaturbate"
+  name: string // Human-readable platform name
+  // maxWaitMs caps how long the call may wait for the provider's rate limit
+  // before it gives up with an "unknown" snapshot
+  fetchStatus(username: string, maxWaitMs?: number): Promise<RoomSnapshot>
+  // Optional bulk mode: every online room keyed by username, or null if the
+  // listing is unavailable. Rooms missing from the listing count as offline
+  // unless they were online at the previous check.
+  fetchOnlineRooms?(): Promise<Map<string, RoomSnapshot> | null>
+  roomUrl(username: string): string
+  isValidUsername(username: string): boolean
+  // Optional: the username in a link to a room on this platform, or null
+  // if the link isn't one
+  parseRoomUrl?(url: URL): string | null
+}
+
+// Bare usernames (and records from before providers existed) belong here
+export const DEFAULT_PROVIDER_ID = Deno.env.get("DEFAULT_PROVIDER") || "chaturbate"
+
+const providers = new Map<string, StatusProvider>()
+
+/**
+ * Makes a provider available to the monitor. Registering a provider with an
+ * existing id replaces it, which lets tests swap in a fake.
+ */
+export function registerProvider(provider: StatusProvider): void {
+  providers.set(provider.id, provider)
+}
+
+export function getProvider(id: string): StatusProvider | null {
+  return providers.get(id) ?? null
+}
+
+/**
+ * Builds the storage key for a model, e.g. "chaturbate:alice".
+ */
+export function toModelKey(providerId: string, username: string): string {
+  return `${providerId}:${username}`
+}
+
+/**
+ * Splits a model key into provider id and username. Keys without a prefix
+ * are treated as belonging to the default provider.
+ */
+export function parseModelKey(key: string): { providerId: string; username: string } {
+  const separator = key.indexOf(":")
+  if (separator === -1) return { providerId: DEFAULT_PROVIDER_ID, username: key }
+  return { providerId: key.slice(0, separator), username: key.slice(separator + 1) }
+}
+
+/**
+ * Turns user input ("alice", "@alice", "chaturbate:alice" or a room link)
+ * into a model key. Returns null if the provider is unknown or the username
+ * is invalid.
+ */
+export function resolveModelKey(input: string): string | null {
+  const cleaned = sanitizeModelName(input).replace(/^@/, "")
+  if (!cleaned) return null
+
+  const url = parseLink(cleaned)
+  if (url) {
+    for (const provider of providers.values()) {
+      const username = provider.parseRoomUrl?.(url)
+      if (username && provider.isValidUsername(username)) return toModelKey(provider.id, username)
+    }
+    return null
+  }
+
+  const { providerId, username } = parseModelKey(cleaned)
+  const provider = getProvider(providerId)
+  if (!provider || !provider.isValidUsername(username)) return null
+
+  return toModelKey(providerId, username)
+}
+
+// Accepts links with or without the scheme, e.g. "chaturbate.com/alice/"
+function parseLink(input: string): URL | null {
+  if (!/^(https?:\/\/)?[a-z0-9-]+(\.[a-z0-9-]+)+\//.test(input)) return null
+  try {
+    return new URL(/^https?:\/\//.test(input) ? input : `https://${input}`)
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Returns the name shown to users: the bare username for the default
+ * provider, "username (Platform)" for the others.
+ */
+export function displayModelName(key: string): string {
+  const { providerId, username } = parseModelKey(key)
+  if (providerId === DEFAULT_PROVIDER_ID) return username
+  return `${username} (${getProvider(providerId)?.name ?? providerId})`
+}
+
+/**
+ * Returns the public room URL for a model key, or null for unknown providers.
+ */
+export function roomUrlFor(key: string): string | null {
+  const { providerId, username } = parseModelKey(key)
+  return getProvider(providerId)?.roomUrl(username) ?? null
+}
@@ -0,0 +1,87 @@
+// subscription-io.test.ts
+//
+// Checks that exported subscriptions read back unchanged and that the plain
+// lists other trackers export are understood. Run with:
+//
+//   deno test --unstable-kv --allow-env subscription-io.test.ts
+
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts"
+import type { SubscriptionPrefs } from "./database.ts"
+import { FakeStatusProvider } from "./fake-provider.ts"
+import { registerProvider } from "./status-provider.ts"
+
+// The database is opened when it's first imported, so this has to come first
+Deno.env.set("KV_PATH", ":memory:")
+const { chaturbateProvider } = await import("./api-fetcher.ts")
+const { exportSubscriptions, parseImport } = await import("./subscription-io.ts")
+
+registerProvider(chaturbateProvider)
+registerProvider(new FakeStatusProvider())
+
+const CREATED_AT = Date.UTC(2024, 0, 1)
+
+const SUBSCRIPTIONS: [string, SubscriptionPrefs][] = [
+  ["chaturbate:alice", { events: null, grace_period_ms: null, muted: false, created_at: CREATED_AT }],
+  ["fake:bob", { events: ["online", "private"], grace_period_ms: 5 * 60000, muted: true, created_at: CREATED_AT }],
+]
+
+Deno.test("JSON exports read back unchanged", () => {
+  const parsed = parseImport(exportSubscriptions(SUBSCRIPTIONS, "json"))
+  assertEquals(parsed.invalid, [])
+  assertEquals(parsed.entries, SUBSCRIPTIONS.map(([model, prefs]) => ({ model, prefs })))
+})
+
+Deno.test("CSV exports read back unchanged", () => {
+  const parsed = parseImport(exportSubscriptions(SUBSCRIPTIONS, "csv"))
+  assertEquals(parsed.invalid, [])
+  assertEquals(parsed.entries, SUBSCRIPTIONS.map(([model, prefs]) => ({ model, prefs })))
+})
+
+Deno.test("a JSON array of names imports without preferences", () => {
+  const parsed = parseImport('["alice", "https://chaturbate.com/bob/", "no way", 42]')
+  assertEquals(parsed.entries, [
+    { model: "chaturbate:alice", prefs: null },
+    { model: "chaturbate:bob", prefs: null },
+  ])
+  assertEquals(parsed.invalid, ["no way", "42"])
+})
+
+Deno.test("unknown events are dropped from JSON records", () => {
+  const parsed = parseImport('{"subscriptions": [{"model": "alice", "events": ["online", "dancing"]}]}')
+  assertEquals(parsed.entries[0].prefs?.events, ["online"])
+  assertEquals(parsed.entries[0].prefs?.grace_period_ms, null)
+})
+
+Deno.test("a plain list imports one model per name or link", () => {
+  const parsed = parseImport("\uFEFFalice\r\nbob, carol\n\nchaturbate.com/dave/\nfake:erin\nbad-name\n")
+  assertEquals(parsed.entries.map((entry) => entry.model), [
+    "chaturbate:alice",
+    "chaturbate:bob",
+    "chaturbate:carol",
+    "chaturbate:dave",
+    "fake:erin",
+  ])
+  assertEquals(parsed.entries.every((entry) => entry.prefs === null), true)
+  assertEquals(parsed.invalid, ["bad-name"])
+})
+
+Deno.test("CSV with only a model column imports without preferences", () => {
+  const parsed = parseImport('Model\n"alice"\nbob\n')
+  assertEquals(parsed.entries, [
+    { model: "chaturbate:alice", prefs: null },
+    { model: "chaturbate:bob", prefs: null },
+  ])
+})
+
+Deno.test("CSV preferences are read from their columns in any order", () => {
+  const parsed = parseImport("muted;model;grace_minutes\nyes;alice;2.5\nno;bob;\n")
+  assertEquals(parsed.entries.map((entry) => [entry.model, entry.prefs?.muted, entry.prefs?.grace_period_ms]), [
+    ["chaturbate:alice", true, 150000],
+    ["chaturbate:bob", false, null],
+  ])
+})
+
+Deno.test("later duplicates replace earlier ones", () => {
+  const parsed = parseImport('[{"model": "alice", "muted": true}, "Alice"]')
+  assertEquals(parsed.entries, [{ model: "chaturbate:alice", prefs: null }])
+})
@@ -0,0 +1,200 @@
+// subscription-io.ts
+//
+// This module turns a chat's subscriptions into JSON or CSV documents and
+// reads them back. Imports also accept the plain lists other trackers
+// export: a JSON array of names, or a CSV/text file with one name or room
+// link per line.
+
+import { ALL_STATUS_EVENTS, type StatusEvent, type SubscriptionPrefs } from "./database.ts"
+import { displayModelName, resolveModelKey } from "./status-provider.ts"
+import { splitModelList } from "./utils.ts"
+
+export type ExportFormat = "json" | "csv"
+
+export interface ExportedSubscription {
+  model: string // Model key, e.g. "chaturbate:alice"
+  prefs: SubscriptionPrefs | null // Null when the file only had a name
+}
+
+export interface ParsedImport {
+  entries: ExportedSubscription[]
+  invalid: string[] // Entries that aren't a valid name or room link
+}
+
+// Imports larger than this are rejected. The parsed import waits in the
+// user state for confirmation, which has to fit in one KV value.
+export const MAX_IMPORT_BYTES = 512 * 1024
+export const MAX_IMPORT_ENTRIES = 300
+
+const CSV_COLUMNS = ["model", "events", "grace_minutes", "muted", "created_at"]
+
+/**
+ * Builds the export document for a chat's subscriptions.
+ * @param subscriptions Model keys with their preferences.
+ * @param format JSON keeps everything; CSV is for spreadsheets.
+ */
+export function exportSubscriptions(subscriptions: [string, SubscriptionPrefs][], format: ExportFormat): string {
+  if (format === "json") {
+    return JSON.stringify(
+      {
+        version: 1,
+        exported_at: new Date().toISOString(),
+        subscriptions: subscriptions.map(([model, prefs]) => ({ model, ...prefs })),
+      },
+      null,
+      2,
+    )
+  }
+
+  const rows = subscriptions.map(([model, prefs]) => [
+    model,
+    prefs.events === null ? "" : prefs.events.join(" "),
+    prefs.grace_period_ms === null ? "" : String(Math.round(prefs.grace_period_ms / 60000)),
+    prefs.muted ? "yes" : "no",
+    new Date(prefs.created_at).toISOString(),
+  ])
+  return [CSV_COLUMNS, ...rows].map((row) => row.map(csvField).join(",")).join("\n") + "\n"
+}
+
+/**
+ * Reads an uploaded document. The format is guessed from the content, so
+ * a mislabelled file still works.
+ */
+export function parseImport(content: string): ParsedImport {
+  const trimmed = content.replace(/^\uFEFF/, "").trim()
+  if (trimmed.startsWith("{") || trimmed.startsWith("[")) {
+    try {
+      return parseJsonImport(JSON.parse(trimmed))
+    } catch {
+      // Not JSON after all - fall through to the line-based formats
+    }
+  }
+  return parseCsvImport(trimmed)
+}
+
+function parseJsonImport(data: unknown): ParsedImport {
+  const items: unknown[] = Array.isArray(data)
+    ? data
+    : Array.isArray((data as { subscriptions?: unknown })?.subscriptions)
+    ? (data as { subscriptions: unknown[] }).subscriptions
+    : []
+
+  const result: ParsedImport = { entries: [], invalid: [] }
+  for (const item of items) {
+    if (typeof item === "string") {
+      addEntry(result, item, null)
+    } else if (item && typeof item === "object" && typeof (item as { model?: unknown }).model === "string") {
+      const record = item as Record<string, unknown>
+      addEntry(result, record.model as string, {
+        events: parseEvents(record.events),
+        grace_period_ms: typeof record.grace_period_ms === "number" ? record.grace_period_ms : null,
+        muted: record.muted === true,
+        created_at: typeof record.created_at === "number" ? record.created_at : Date.now(),
+      })
+    } else {
+      result.invalid.push(String(JSON.stringify(item)).slice(0, 40))
+    }
+  }
+  return result
+}
+
+function parseCsvImport(content: string): ParsedImport {
+  const rows = content.split(/\r?\n/).map(parseCsvLine).filter((row) => row.length > 0 && row[0] !== "")
+  const header = (rows[0] ?? []).map((cell) => cell.toLowerCase())
+
+  const result: ParsedImport = { entries: [], invalid: [] }
+  if (!header.includes("model")) {
+    // A plain list: every cell holds names or links
+    for (const item of rows.flat().flatMap(splitModelList)) {
+      addEntry(result, item, null)
+    }
+    return result
+  }
+
+  const column = (name: string) => header.indexOf(name)
+  for (const row of rows.slice(1)) {
+    const cell = (name: string) => column(name) === -1 ? "" : row[column(name)] ?? ""
+    const hasPrefs = column("events") !== -1 || column("grace_minutes") !== -1 || column("muted") !== -1
+    const grace = parseFloat(cell("grace_minutes"))
+    const createdAt = Date.parse(cell("created_at"))
+
+    addEntry(result, cell("model"), hasPrefs
+      ? {
+        events: cell("events") ? parseEvents(cell("events").split(/\s+/)) : null,
+        grace_period_ms: Number.isFinite(grace) && grace >= 0 ? Math.round(grace * 60000) : null,
+        muted: ["yes", "true", "1"].includes(cell("muted").toLowerCase()),
+        created_at: Number.isFinite(createdAt) ? createdAt : Date.now(),
+      }
+      : null)
+  }
+  return result
+}
+
+function addEntry(result: ParsedImport, input: string, prefs: SubscriptionPrefs | null): void {
+  const model = resolveModelKey(input)
+  if (!model) {
+    result.invalid.push(input)
+    return
+  }
+  // Later duplicates win, like they would when applied in order
+  result.entries = result.entries.filter((entry) => entry.model !== model)
+  result.entries.push({ model, prefs })
+}
+
+function parseEvents(value: unknown): StatusEvent[] | null {
+  if (!Array.isArray(value)) return null
+  return value.filter((event): event is StatusEvent => ALL_STATUS_EVENTS.includes(event as StatusEvent))
+}
+
+// Minimal CSV: quoted fields with "" escapes, no newlines inside fields
+function parseCsvLine(line: string): string[] {
+  const cells: string[] = []
+  let current = ""
+  let quoted = false
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i]
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        current += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === "," || char === ";" || char === "\t") {
+      cells.push(current.trim())
+      current = ""
+    } else {
+      current += char
+    }
+  }
+  cells.push(current.trim())
+  return cells
+}
+
+function csvField(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+/**
+ * Whether importing the entry would change an existing subscription.
+ */
+export function prefsDiffer(current: SubscriptionPrefs, imported: SubscriptionPrefs): boolean {
+  const events = (prefs: SubscriptionPrefs) => prefs.events === null ? null : [...prefs.events].sort().join(",")
+  return events(current) !== events(imported) ||
+    current.grace_period_ms !== imported.grace_period_ms ||
+    current.muted !== imported.muted
+}
+
+/**
+ * Short, human-readable list of models for the import preview.
+ */
+export function previewNames(models: string[], limit = 15): string {
+  const names = models.slice(0, limit).map(displayModelName)
+  const more = models.length > limit ? ` and ${models.length - limit} more` : ""
+  return names.join(", ") + more
+}
@@ -0,0 +1,44 @@
+// utils.test.ts
+//
+// Checks how long messages are split to fit Telegram's length limit. Run
+// with:
+//
+//   deno test utils.test.ts
+
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts"
+import { splitMessage } from "./utils.ts"
+
+Deno.test("a short message stays in one part", () => {
+  assertEquals(splitMessage(["<b>Summary</b>", "alice", "bob"]), ["<b>Summary</b>\nalice\nbob"])
+})
+
+Deno.test("an empty message has no parts", () => {
+  assertEquals(splitMessage([]), [])
+  assertEquals(splitMessage(["", "  "]), [])
+})
+
+Deno.test("parts break between blocks", () => {
+  const parts = splitMessage(["aaaa", "bbbb", "cccc"], 9)
+  assertEquals(parts, ["aaaa\nbbbb", "cccc"])
+})
+
+Deno.test("a block that fills a part on its own gets one", () => {
+  assertEquals(splitMessage(["aa", "bbbbbbbbb", "cc"], 9), ["aa", "bbbbbbbbb", "cc"])
+})
+
+Deno.test("a block that is too long is cut at a space or line break", () => {
+  const parts = splitMessage(["one two three\nfour"], 9)
+  assertEquals(parts, ["one two", "three", "four"])
+})
+
+Deno.test("a block without spaces is cut at the limit", () => {
+  assertEquals(splitMessage(["abcdefghij"], 4), ["abcd", "efgh", "ij"])
+})
+
+Deno.test("no part is longer than the limit", () => {
+  const blocks = Array.from({ length: 500 }, (_, i) => `<a href="https://chaturbate.com/model${i}/">model${i}</a> 🟢`)
+  const parts = splitMessage(blocks)
+  assertEquals(parts.length > 1, true)
+  assertEquals(parts.every((part) => part.length <= 4096), true)
+  assertEquals(parts.join("\n"), blocks.join("\n"))
+})
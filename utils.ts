@@ -19,6 +19,25 @@ export function sanitizeModelName(name: string): string {
   return name.replace(/[<>]/g, "").trim().toLowerCase()
 }
 
+/**
+ * Splits a message listing several models, separated by commas, semicolons,
+ * spaces or newlines. Duplicates are dropped.
+ * @param text The raw message from the user.
+ */
+export function splitModelList(text: string): string[] {
+  return [...new Set(text.split(/[\s,;]+/).filter(Boolean))]
+}
+
+/**
+ * Normalizes a subscription tag: lowercase letters, digits and dashes, up to
+ * 20 characters, with an optional leading "#".
+ * @returns The tag, or null when it isn't valid.
+ */
+export function normalizeTag(input: string): string | null {
+  const tag = input.trim().replace(/^#/, "").toLowerCase()
+  return /^[a-z0-9-]{1,20}$/.test(tag) ? tag : null
+}
+
 /**
  * Escapes special HTML characters in a string to prevent parsing errors
  * and injection vulnerabilities when using Telegram's HTML parse_mode.
@@ -34,6 +53,41 @@ export function escapeHTML(str: string): string {
     .replace(/'/g, "&#39;")
 }
 
+/**
+ * Splits a message into parts that fit Telegram's limit of 4096 characters.
+ * Parts break between blocks; a block that is too long on its own is cut at
+ * a line break or space.
+ * @param blocks The message's lines or groups of lines, each closing its own
+ * HTML tags. They are joined with line breaks.
+ * @param maxLength The longest part allowed.
+ */
+export function splitMessage(blocks: string[], maxLength = 4096): string[] {
+  const parts: string[] = []
+  let current = ""
+
+  const append = (block: string) => {
+    const joined = current ? `${current}\n${block}` : block
+    if (joined.length <= maxLength) {
+      current = joined
+      return
+    }
+    if (current.trim()) parts.push(current.trimEnd())
+    current = block
+  }
+
+  for (let block of blocks) {
+    while (block.length > maxLength) {
+      const cut = Math.max(block.lastIndexOf("\n", maxLength), block.lastIndexOf(" ", maxLength))
+      const at = cut > 0 ? cut : maxLength
+      append(block.slice(0, at))
+      block = block.slice(at).trimStart()
+    }
+    append(block)
+  }
+  if (current.trim()) parts.push(current.trimEnd())
+  return parts
+}
+
 /**
  * Formats a duration in milliseconds into a human-readable string.
  * @param ms The duration in milliseconds.
@@ -56,6 +110,77 @@ export function formatDuration(ms: number): string {
   }
 }
 
+/**
+ * Checks that a string is an IANA time zone name the runtime knows.
+ * @param timeZone The time zone, e.g. "Europe/Berlin".
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Returns the local time of day in a time zone, in minutes since midnight.
+ * @param date The moment to convert.
+ * @param timeZone The IANA time zone.
+ */
+export function getLocalMinutes(date: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", { timeZone, hour: "2-digit", minute: "2-digit", hourCycle: "h23" })
+    .formatToParts(date)
+  const hour = Number(parts.find((part) => part.type === "hour")?.value ?? 0)
+  const minute = Number(parts.find((part) => part.type === "minute")?.value ?? 0)
+  return hour * 60 + minute
+}
+
+/**
+ * Returns the local day of the week in a time zone (0 = Sunday).
+ * @param date The moment to convert.
+ * @param timeZone The IANA time zone.
+ */
+export function getLocalWeekday(date: Date, timeZone: string): number {
+  const weekday = new Intl.DateTimeFormat("en-US", { timeZone, weekday: "short" }).format(date)
+  return ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"].indexOf(weekday)
+}
+
+/**
+ * Parses a time of day such as "23:00" or "7" into minutes since midnight.
+ * @param text The user's input.
+ */
+export function parseTimeOfDay(text: string): number | null {
+  const match = text.trim().match(/^(\d{1,2})(?::(\d{2}))?$/)
+  if (!match) return null
+
+  const hours = Number(match[1])
+  const minutes = Number(match[2] ?? 0)
+  if (hours > 23 || minutes > 59) return null
+  return hours * 60 + minutes
+}
+
+/**
+ * Formats minutes since midnight as "HH:MM".
+ * @param minutes The time of day.
+ */
+export function formatTimeOfDay(minutes: number): string {
+  const hours = Math.floor(minutes / 60)
+  return `${String(hours).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`
+}
+
+/**
+ * Checks whether a local time falls inside a window that may wrap past
+ * midnight, e.g. 23:00–07:00.
+ * @param minutes The local time of day.
+ * @param start Window start, inclusive.
+ * @param end Window end, exclusive.
+ */
+export function isWithinWindow(minutes: number, start: number, end: number): boolean {
+  if (start === end) return false
+  return start < end ? minutes >= start && minutes < end : minutes >= start || minutes < end
+}
+
 /**
  * Parses admin IDs from environment variable into array of numbers.
  * @param envVar The comma-separated string of admin IDs.
@@ -68,6 +193,61 @@ export function parseAdminIds(envVar: string | undefined): number[] {
     .filter((id) => !isNaN(id))
 }
 
+/**
+ * Parses a positive integer from an environment variable.
+ * @param envVar The raw value.
+ * @param fallback Used when the value is missing or not a positive integer.
+ */
+export function parsePositiveInt(envVar: string | undefined, fallback: number): number {
+  const value = Number.parseInt(envVar ?? "")
+  return !isNaN(value) && value > 0 ? value : fallback
+}
+
+/**
+ * Parses an integer within a range from an environment variable.
+ * @param envVar The raw value.
+ * @param min The smallest value allowed.
+ * @param max The largest value allowed.
+ * @param fallback Used when the value is missing or out of range.
+ */
+export function parseIntInRange(envVar: string | undefined, min: number, max: number, fallback: number): number {
+  const value = Number.parseInt(envVar ?? "")
+  return !isNaN(value) && value >= min && value <= max ? value : fallback
+}
+
+/**
+ * Parses subscription tier limits from an environment variable, e.g.
+ * "default:50,plus:200,unlimited:0". A limit of 0 means no limit.
+ * @param envVar The comma-separated name:limit pairs.
+ * @param fallback Used for tiers the variable doesn't mention.
+ */
+export function parseTierLimits(envVar: string | undefined, fallback: Record<string, number>): Map<string, number> {
+  const limits = new Map(Object.entries(fallback))
+  for (const pair of (envVar ?? "").split(",")) {
+    const [name, limitText] = pair.split(":").map((part) => part.trim().toLowerCase())
+    const limit = Number.parseInt(limitText ?? "")
+    if (!name || isNaN(limit) || limit < 0) continue
+    limits.set(name, limit === 0 ? Infinity : limit)
+  }
+  return limits
+}
+
+/**
+ * Parses an HTTP Retry-After header into milliseconds.
+ * @param header The header value: either seconds or an HTTP date.
+ */
+export function parseRetryAfter(header: string | null): number | null {
+  if (!header) return null
+
+  const seconds = Number(header)
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000)
+
+  const date = Date.parse(header)
+  if (!isNaN(date)) return Math.max(0, date - Date.now())
+
+  return null
+}
+
 /**
  * Checks if a Telegram API error indicates a blocked or invalid user
  */
@@ -82,3 +262,64 @@ export function isUserBlocked(error: any): boolean {
     description.includes("forbidden")
   )
 }
+
+// The fields of a Telegram API error (grammY's GrammyError) the helpers
+// below look at
+interface TelegramErrorFields {
+  description?: string
+  error_code?: number
+  parameters?: { retry_after?: number; migrate_to_chat_id?: number }
+}
+
+function telegramErrorFields(error: unknown): TelegramErrorFields {
+  return typeof error === "object" && error !== null ? error as TelegramErrorFields : {}
+}
+
+/**
+ * Checks if a Telegram API error means a message can no longer be edited,
+ * e.g. because the user deleted it or it is too old
+ */
+export function isMessageUneditable(error: unknown): boolean {
+  const description = telegramErrorFields(error).description?.toLowerCase()
+  if (!description) return false
+
+  return (
+    description.includes("message to edit not found") ||
+    description.includes("message can't be edited") ||
+    description.includes("message_id_invalid")
+  )
+}
+
+/**
+ * Checks if a Telegram API error is the harmless "message is not modified"
+ */
+export function isMessageNotModified(error: unknown): boolean {
+  return !!telegramErrorFields(error).description?.toLowerCase().includes("message is not modified")
+}
+
+/**
+ * Reads the wait Telegram asks for in a 429 error
+ * @returns Milliseconds to wait, or null if the error isn't a 429
+ */
+export function getTelegramRetryAfter(error: unknown): number | null {
+  const fields = telegramErrorFields(error)
+  if (fields.error_code !== 429) return null
+  return (fields.parameters?.retry_after ?? 1) * 1000
+}
+
+/**
+ * Checks if a Telegram API error will fail the same way on every retry,
+ * e.g. a malformed message or a chat the bot can't write to
+ */
+export function isPermanentTelegramError(error: unknown): boolean {
+  const { error_code } = telegramErrorFields(error)
+  return error_code === 400 || error_code === 403
+}
+
+/**
+ * Reads the new chat id from a Telegram error about a group that was
+ * upgraded to a supergroup
+ */
+export function getMigratedChatId(error: unknown): number | null {
+  return telegramErrorFields(error).parameters?.migrate_to_chat_id ?? null
+}